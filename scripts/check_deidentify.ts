@@ -0,0 +1,97 @@
+import { deidentify, detectPhi, reidentify, restoreAnswer } from '../src/lib/deidentify';
+
+/**
+ * Checks PHI detection and re-identification (src/lib/deidentify.ts).
+ *
+ * Usage:
+ *   npx tsx scripts/check_deidentify.ts
+ *
+ * Each case returns the problems it found; an empty list passes.
+ */
+
+interface DeidCase {
+    name: string;
+    check: () => string[];
+}
+
+function expect(label: string, actual: unknown, expected: unknown): string[] {
+    return JSON.stringify(actual) === JSON.stringify(expected) ? [] : [`${label}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`];
+}
+
+function names(text: string) {
+    return detectPhi(text).filter(s => s.type === 'name').map(s => s.text);
+}
+
+const CASES: DeidCase[] = [
+    {
+        name: 'labelled clinical terms are not names',
+        check: () => expect('names', names('CC: Breast lump\nProcedure name: Lumpectomy\nDiagnosis: Invasive Carcinoma'), []),
+    },
+    {
+        name: 'labelled names at the start of a line',
+        check: () => [
+            ...expect('patient', names('Patient: Jane Doe\nAge: 54'), ['Jane Doe']),
+            ...expect('single word', names('Patient: Doe'), []),
+            ...expect('signed by', names('Report reviewed. Electronically signed by: Alan Grey, MD'), ['Alan Grey']),
+        ],
+    },
+    {
+        name: 'first name next to a later mention is scrubbed too',
+        check: () => {
+            const original = 'Reviewed with Dr. Smith.\nJane Smith was informed of the results. Smith agreed; Mrs Smith declined.';
+            const deid = deidentify(original, 'surrogate');
+            return [
+                ...expect('names', names(original), ['Smith', 'Jane Smith', 'Smith', 'Smith']),
+                ...expect('scrubbed', /Jane|Smith/.test(deid.text), false),
+                ...expect('honorific kept', deid.text.includes('Mrs '), true),
+            ];
+        },
+    },
+    {
+        name: 'surrogate age is not restored into clinical values',
+        check: () => {
+            const original = 'Patient is a 92-year-old woman. ER 90% positive.';
+            const deid = deidentify(original, 'surrogate');
+            return [
+                ...expect('scrubbed', deid.text, 'Patient is a 90-year-old woman. ER 90% positive.'),
+                ...expect('summary', reidentify('A 90-year-old woman, ER 90% positive.', deid), 'A 90-year-old woman, ER 90% positive.'),
+            ];
+        },
+    },
+    {
+        name: 'redact placeholders are restored into generated text',
+        check: () => {
+            const original = 'Seen by Dr. Alan Grey on 2023-04-12.';
+            const deid = deidentify(original, 'redact');
+            return expect('summary', reidentify('[NAME-1] saw the patient on [DATE-1].', deid), 'Alan Grey saw the patient on 2023-04-12.');
+        },
+    },
+    {
+        name: 'QA answer is read from the original by offset',
+        check: () => {
+            const original = 'Patient is a 92-year-old woman. ER 90% positive.';
+            const deid = deidentify(original, 'surrogate');
+            const start = deid.text.indexOf('90-year-old');
+            const restored = restoreAnswer({ answer: '90', context: deid.text, start, end: start + 2 }, deid, original);
+            return expect('answer', restored.answer, '92');
+        },
+    },
+];
+
+function run() {
+    let failures = 0;
+    for (const c of CASES) {
+        const errors = c.check();
+        failures += errors.length > 0 ? 1 : 0;
+        console.log(`${errors.length > 0 ? '❌' : '✅'} ${c.name}`);
+        errors.forEach(e => console.log(`   - ${e}`));
+    }
+
+    if (failures > 0) {
+        console.error(`\n❌ ${failures} de-identification check(s) failed`);
+        process.exit(1);
+    }
+    console.log('\n✅ All de-identification checks passed');
+}
+
+run();
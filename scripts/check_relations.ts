@@ -0,0 +1,80 @@
+import { extractMedications } from '../supabase/functions/clinical-nlp-analysis/relations';
+
+/**
+ * Checks medication relation extraction
+ * (supabase/functions/clinical-nlp-analysis/relations.ts).
+ *
+ * Usage:
+ *   npx tsx scripts/check_relations.ts
+ *
+ * Each case is a note with the drug entities NER would return and the
+ * attributes expected to be linked to each drug.
+ */
+
+type Attribute = 'dose' | 'route' | 'frequency' | 'duration';
+
+interface RelationCase {
+    name: string;
+    text: string;
+    drugs: string[];
+    expected: Array<Partial<Record<Attribute, string>> & { drug: string }>;
+}
+
+const ATTRIBUTES: Attribute[] = ['dose', 'route', 'frequency', 'duration'];
+
+const CASES: RelationCase[] = [
+    {
+        name: 'attributes after the drug',
+        text: 'Anastrozole 1 mg orally daily for 5 years.',
+        drugs: ['Anastrozole'],
+        expected: [{ drug: 'Anastrozole', dose: '1 mg', route: 'orally', frequency: 'daily', duration: 'for 5 years' }],
+    },
+    {
+        name: 'decimal dose does not end the sentence',
+        text: 'Started letrozole 2.5 mg orally daily for 5 years.',
+        drugs: ['letrozole'],
+        expected: [{ drug: 'letrozole', dose: '2.5 mg', route: 'orally', frequency: 'daily', duration: 'for 5 years' }],
+    },
+    {
+        name: 'attributes stay with their own drug',
+        text: 'Tamoxifen 20 mg daily. Denosumab 120 mg subcutaneously every 4 weeks.',
+        drugs: ['Tamoxifen', 'Denosumab'],
+        expected: [
+            { drug: 'Tamoxifen', dose: '20 mg', frequency: 'daily' },
+            { drug: 'Denosumab', dose: '120 mg', route: 'subcutaneously', frequency: 'every 4 weeks' },
+        ],
+    },
+];
+
+function run() {
+    let failures = 0;
+    for (const c of CASES) {
+        const entities = c.drugs.map(drug => {
+            const start = c.text.indexOf(drug);
+            return { text: drug, type: 'Medication', confidence: 0.9, start, end: start + drug.length };
+        });
+        const actual = extractMedications(c.text, entities).map(m => {
+            const linked: Partial<Record<Attribute, string>> & { drug: string } = { drug: m.drug };
+            ATTRIBUTES.forEach(attribute => {
+                const argument = m[attribute];
+                if (argument) linked[attribute] = argument.text;
+            });
+            return linked;
+        });
+        const ok = JSON.stringify(actual) === JSON.stringify(c.expected);
+        failures += ok ? 0 : 1;
+        console.log(`${ok ? '✅' : '❌'} ${c.name}`);
+        if (!ok) {
+            console.log(`   - expected ${JSON.stringify(c.expected)}`);
+            console.log(`     got      ${JSON.stringify(actual)}`);
+        }
+    }
+
+    if (failures > 0) {
+        console.error(`\n❌ ${failures} relation check(s) failed`);
+        process.exit(1);
+    }
+    console.log('\n✅ All relation checks passed');
+}
+
+run();
@@ -0,0 +1,101 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { RawEntity, repairSpans } from '../supabase/functions/clinical-nlp-analysis/spans';
+
+/**
+ * Checks span repair (supabase/functions/clinical-nlp-analysis/spans.ts)
+ * against its fixtures.
+ *
+ * Usage:
+ *   npx tsx scripts/check_span_repair.ts
+ *
+ * Each case in fixtures/span-repair.json is a raw token-classification
+ * response with the spans expected after repair. The recorded model
+ * responses in fixtures/recorded.json have no expected output, so they are
+ * checked for the invariants instead: text matches the offsets, no "##"
+ * fragments, no overlaps, no surrounding whitespace or punctuation.
+ */
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const FIXTURES = path.resolve(__dirname, '../supabase/functions/clinical-nlp-analysis/fixtures');
+
+interface InferenceEntity {
+    entity_group: string;
+    score: number;
+    word: string;
+    start: number;
+    end: number;
+}
+
+interface RepairCase {
+    name: string;
+    model: string;
+    text: string;
+    response: InferenceEntity[];
+    expected: Array<{ text: string; type: string; start: number; end: number }>;
+}
+
+function toRawEntities(response: InferenceEntity[]): RawEntity[] {
+    return response.map(item => ({
+        text: item.word,
+        type: item.entity_group,
+        confidence: item.score,
+        start: item.start,
+        end: item.end,
+    }));
+}
+
+function describe(entities: Array<{ text: string; type: string; start: number; end: number }>) {
+    return entities.map(e => `${e.type} "${e.text}" [${e.start}-${e.end}]`).join(', ');
+}
+
+function invariantErrors(text: string, entities: RawEntity[]): string[] {
+    const errors: string[] = [];
+    entities.forEach((e, i) => {
+        if (e.text !== text.slice(e.start, e.end)) errors.push(`"${e.text}" does not match its offsets`);
+        if (e.text.includes('##')) errors.push(`"${e.text}" still contains a subword marker`);
+        if (/^[\s.,;:!?]|[\s.,;:!?]$/.test(e.text)) errors.push(`"${e.text}" is not trimmed`);
+        const next = entities[i + 1];
+        if (next && next.start < e.end) errors.push(`"${e.text}" overlaps "${next.text}"`);
+    });
+    return errors;
+}
+
+function run() {
+    const { cases } = JSON.parse(fs.readFileSync(path.join(FIXTURES, 'span-repair.json'), 'utf8')) as { cases: RepairCase[] };
+    const recorded = JSON.parse(fs.readFileSync(path.join(FIXTURES, 'recorded.json'), 'utf8')) as Array<{ model: string; inputs: unknown; response: unknown }>;
+    let failures = 0;
+
+    for (const c of cases) {
+        const repaired = repairSpans(c.text, toRawEntities(c.response));
+        const actual = repaired.map(({ text, type, start, end }) => ({ text, type, start, end }));
+        const errors = invariantErrors(c.text, repaired);
+        if (JSON.stringify(actual) !== JSON.stringify(c.expected)) {
+            errors.push(`expected ${describe(c.expected)}\n     got      ${describe(actual)}`);
+        }
+        failures += errors.length > 0 ? 1 : 0;
+        console.log(`${errors.length > 0 ? '❌' : '✅'} ${c.name}`);
+        errors.forEach(e => console.log(`   - ${e}`));
+    }
+
+    // Recorded token-classification responses: entity arrays for a string input
+    for (const entry of recorded) {
+        if (typeof entry.inputs !== 'string' || !Array.isArray(entry.response)) continue;
+        if (!entry.response.every(item => typeof item === 'object' && item !== null && 'entity_group' in item)) continue;
+        const repaired = repairSpans(entry.inputs, toRawEntities(entry.response as InferenceEntity[]));
+        const errors = invariantErrors(entry.inputs, repaired);
+        failures += errors.length > 0 ? 1 : 0;
+        console.log(`${errors.length > 0 ? '❌' : '✅'} recorded ${entry.model} (${entry.response.length} -> ${repaired.length} entities)`);
+        errors.forEach(e => console.log(`   - ${e}`));
+    }
+
+    if (failures > 0) {
+        console.error(`\n❌ ${failures} span repair check(s) failed`);
+        process.exit(1);
+    }
+    console.log('\n✅ All span repair checks passed');
+}
+
+run();
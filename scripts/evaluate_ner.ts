@@ -0,0 +1,173 @@
+import { createClient } from '@supabase/supabase-js';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { evaluateNER, formatEvaluationReport, parseJsonlDataset, EvaluationDocument, PredictedSpan } from '../src/lib/evaluation';
+import { DEFAULT_LABEL_MAPPING, getLabelMapping, LabelMapping, parseLabelMapping, projectEntities } from '../src/lib/labels';
+import { stubInference } from '../supabase/functions/clinical-nlp-analysis/stub';
+
+/**
+ * Gold-standard NER evaluation over the bundled JSONL datasets.
+ *
+ * Usage:
+ *   npx tsx scripts/evaluate_ner.ts [--stub] [--model BioBERT] [--dataset file.jsonl] [--out report.json]
+ *                                   [--mapping <id|mapping.json>] [--raw]
+ *
+ * Predicted labels are projected onto the dataset schema with a label mapping
+ * (src/lib/labels.ts) before scoring; --raw scores the model tags as-is.
+ *
+ * Without --stub the clinical-nlp-analysis function is called through Supabase
+ * (VITE_SUPABASE_URL / VITE_SUPABASE_ANON_KEY), so pointing it at a local
+ * `supabase functions serve` with INFERENCE_PROVIDER=stub works offline.
+ * With --stub the deterministic stub runs in-process and no backend is needed.
+ */
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const DEFAULT_DATASETS = [
+    'dataset_oncology_notes.jsonl',
+    'dataset_pathology_reports.jsonl',
+    'dataset_radiology_findings.jsonl',
+];
+
+function getEnvVar(key: string): string | undefined {
+    try {
+        const envPath = path.resolve(__dirname, '../.env');
+        if (fs.existsSync(envPath)) {
+            const envConfig = fs.readFileSync(envPath, 'utf8');
+            const lines = envConfig.split('\n');
+            for (const line of lines) {
+                const [k, v] = line.split('=');
+                if (k && k.trim() === key) {
+                    return v.trim();
+                }
+            }
+        }
+    } catch {
+        // Ignore error if .env doesn't exist (e.g. in CI)
+    }
+    return undefined;
+}
+
+function parseArgs(argv: string[]) {
+    const options = { stub: false, model: 'BioBERT', datasets: [] as string[], out: '', mapping: DEFAULT_LABEL_MAPPING, raw: false };
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (arg === '--stub') options.stub = true;
+        else if (arg === '--model') options.model = argv[++i];
+        else if (arg === '--dataset') options.datasets.push(argv[++i]);
+        else if (arg === '--out') options.out = argv[++i];
+        else if (arg === '--mapping') options.mapping = argv[++i];
+        else if (arg === '--raw') options.raw = true;
+        else {
+            console.error(`Unknown argument: ${arg}`);
+            process.exit(1);
+        }
+    }
+    if (options.datasets.length === 0) options.datasets = DEFAULT_DATASETS;
+    return options;
+}
+
+type Predictor = (text: string) => Promise<PredictedSpan[]>;
+
+function loadMapping(idOrFile: string): LabelMapping {
+    if (idOrFile.endsWith('.json')) {
+        return parseLabelMapping(JSON.parse(fs.readFileSync(path.resolve(idOrFile), 'utf8')));
+    }
+    return getLabelMapping(idOrFile);
+}
+
+function printUnmapped(unmapped: Record<string, number>) {
+    const entries = Object.entries(unmapped).sort((a, b) => b[1] - a[1]);
+    if (entries.length === 0) return;
+    console.log(`\n⚠ Unmapped model labels (kept as-is, scored as false positives): ${entries.map(([label, n]) => `${label}=${n}`).join(', ')}`);
+}
+
+function stubPredictor(): Predictor {
+    return async (text) => {
+        const output = stubInference('token-classification', 'stub', { inputs: text }) as Array<{ entity_group: string; score: number; start: number; end: number }>;
+        return output.map(item => ({ start: item.start, end: item.end, label: item.entity_group, confidence: item.score }));
+    };
+}
+
+function remotePredictor(model: string): Predictor {
+    const supabaseUrl = process.env.VITE_SUPABASE_URL || getEnvVar('VITE_SUPABASE_URL');
+    const supabaseAnonKey = process.env.VITE_SUPABASE_ANON_KEY || getEnvVar('VITE_SUPABASE_ANON_KEY');
+
+    if (!supabaseUrl || !supabaseAnonKey) {
+        console.error('Missing Supabase environment variables (or pass --stub to run offline)');
+        process.exit(1);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseAnonKey);
+
+    return async (text) => {
+        const { data, error } = await supabase.functions.invoke('clinical-nlp-analysis', {
+            body: { type: 'ner', text, model, confidenceThreshold: 0 },
+        });
+        if (error) throw new Error(error.message || String(error));
+        if (data?.error) throw new Error(data.error.message ?? String(data.error));
+        return (data.data.entities as Array<{ start: number; end: number; type: string; confidence: number }>)
+            .map(e => ({ start: e.start, end: e.end, label: e.type, confidence: e.confidence }));
+    };
+}
+
+async function runEvaluation() {
+    const options = parseArgs(process.argv.slice(2));
+    const predict = options.stub ? stubPredictor() : remotePredictor(options.model);
+    const mapping = options.raw ? null : loadMapping(options.mapping);
+    const reports: Record<string, ReturnType<typeof evaluateNER>> = {};
+    const unmappedByDataset: Record<string, Record<string, number>> = {};
+    const allDocuments: EvaluationDocument[] = [];
+
+    console.log(`Evaluating ${options.stub ? 'in-process stub' : `model ${options.model}`}${mapping ? ` with label mapping ${mapping.id} v${mapping.version}` : ' (raw model labels)'}...`);
+
+    for (const dataset of options.datasets) {
+        const datasetPath = path.resolve(__dirname, '..', dataset);
+        const goldDocuments = parseJsonlDataset(fs.readFileSync(datasetPath, 'utf8'));
+        const documents: EvaluationDocument[] = [];
+        const unmapped: Record<string, number> = {};
+
+        for (const doc of goldDocuments) {
+            let predicted = await predict(doc.text);
+            if (mapping) {
+                const projection = projectEntities(
+                    predicted.map(p => ({ ...p, type: p.label, text: doc.text.slice(p.start, p.end) })),
+                    mapping
+                );
+                predicted = projection.entities.map(p => ({ start: p.start, end: p.end, label: p.type, confidence: p.confidence }));
+                Object.entries(projection.unmapped).forEach(([label, n]) => { unmapped[label] = (unmapped[label] || 0) + n; });
+            }
+            documents.push({ ...doc, predicted });
+        }
+
+        reports[dataset] = evaluateNER(documents);
+        unmappedByDataset[dataset] = unmapped;
+        allDocuments.push(...documents);
+
+        console.log(`\n=== ${dataset} ===`);
+        console.log(formatEvaluationReport(reports[dataset]));
+        printUnmapped(unmapped);
+    }
+
+    const overall = evaluateNER(allDocuments);
+    console.log('\n=== OVERALL ===');
+    console.log(formatEvaluationReport(overall));
+
+    if (options.out) {
+        fs.writeFileSync(options.out, JSON.stringify({
+            model: options.stub ? 'stub' : options.model,
+            labelMapping: mapping ? { id: mapping.id, version: mapping.version, targetSchema: mapping.targetSchema } : null,
+            unmappedLabels: unmappedByDataset,
+            datasets: reports,
+            overall,
+        }, null, 2));
+        console.log(`\n✅ Report written to ${options.out}`);
+    }
+}
+
+runEvaluation().catch(err => {
+    console.error('❌ Evaluation failed:', err instanceof Error ? err.message : err);
+    process.exit(1);
+});
@@ -0,0 +1,77 @@
+import { createClient } from '@supabase/supabase-js';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+/**
+ * Clears the edge function's result cache (analysis_cache, see
+ * supabase/functions/clinical-nlp-analysis/cache.ts).
+ *
+ * Usage:
+ *   npx tsx scripts/invalidate_cache.ts [--task ner|summarization|qa|comparison] [--model <hf model id>]
+ *
+ * Without options every entry is removed; expired entries are always removed.
+ * Needs SUPABASE_SERVICE_ROLE_KEY (the anon key cannot touch the cache).
+ */
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+function getEnvVar(key: string): string | undefined {
+    try {
+        const envPath = path.resolve(__dirname, '../.env');
+        if (fs.existsSync(envPath)) {
+            const envConfig = fs.readFileSync(envPath, 'utf8');
+            const lines = envConfig.split('\n');
+            for (const line of lines) {
+                const [k, v] = line.split('=');
+                if (k && k.trim() === key) {
+                    return v.trim();
+                }
+            }
+        }
+    } catch {
+        // Ignore error if .env doesn't exist (e.g. in GitHub Actions)
+    }
+    return undefined;
+}
+
+function parseArgs(argv: string[]) {
+    const options: { task?: string; model?: string } = {};
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (arg === '--task') options.task = argv[++i];
+        else if (arg === '--model') options.model = argv[++i];
+        else {
+            console.error(`Unknown argument: ${arg}`);
+            process.exit(1);
+        }
+    }
+    return options;
+}
+
+async function invalidate() {
+    const options = parseArgs(process.argv.slice(2));
+    const supabaseUrl = process.env.VITE_SUPABASE_URL || getEnvVar('VITE_SUPABASE_URL');
+    const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || getEnvVar('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !serviceKey) {
+        console.error('Missing VITE_SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY');
+        process.exit(1);
+    }
+
+    const supabase = createClient(supabaseUrl, serviceKey);
+    const { data, error } = await supabase.rpc('invalidate_analysis_cache', {
+        _task: options.task ?? null,
+        _model_id: options.model ?? null,
+    });
+
+    if (error) {
+        console.error('❌ Cache invalidation failed:', error.message);
+        process.exit(1);
+    }
+    const scope = [options.task, options.model].filter(Boolean).join(' / ') || 'all entries';
+    console.log(`✅ Removed ${data} cached result(s) (${scope})`);
+}
+
+invalidate();
@@ -11,6 +11,10 @@
  * - Multi-Model Comparison and performance analytics
  * - Batch Processing for multiple documents
  * - Analytics Dashboard with interactive visualizations
+ * - Patient timeline built from normalized dates across analyses
+ * - Client-side PHI de-identification before text is sent or stored
+ * - Supabase Auth sign-in; workspaces and projects with owner/annotator/viewer roles (RLS)
+ * - Append-only audit log of analyses, saves, history views, exports and deletions
  * - Export functionality (JSON/CSV)
  * - Automated Clinical Insights and completeness scoring
  * - Fine-tuning UI scaffold for model customization
@@ -31,29 +35,51 @@
  */
 
 import { useState } from 'react';
-import { Activity, FileText, MessageSquare, GitCompare, Layers, BarChart3, Settings, BookOpen, History } from 'lucide-react';
+import { Activity, FileText, MessageSquare, GitCompare, Layers, BarChart3, CalendarClock, Settings, BookOpen, History, ShieldCheck, LogOut, ScrollText } from 'lucide-react';
 import NERAnalysis from './components/NERAnalysis';
 import Summarization from './components/Summarization';
 import QuestionAnswering from './components/QuestionAnswering';
 import ModelComparison from './components/ModelComparison';
 import BatchProcessing from './components/BatchProcessing';
 import Analytics from './components/Analytics';
+import Timeline from './components/Timeline';
+import AuditLog from './components/AuditLog';
 import FineTuning from './components/FineTuning';
 import Guide from './components/Guide';
 import HistoryPanel from './components/HistoryPanel';
 import WelcomeBanner from './components/WelcomeBanner';
 import AboutModal from './components/AboutModal';
 import PrivacyModal from './components/PrivacyModal';
+import SignIn from './components/SignIn';
+import ProjectSwitcher from './components/ProjectSwitcher';
+import { AuthProvider, useAuth } from './context/AuthContext';
+import { ProjectProvider } from './context/ProjectContext';
 import { FileProvider } from './context/FileContext';
-import { NotificationProvider } from './context/NotificationContext';
+import { NotificationProvider, useNotification } from './context/NotificationContext';
+import { DeidentificationProvider, useDeidentification } from './context/DeidentificationContext';
+import { DEID_MODE_LABELS } from './lib/deidentify';
 
-type Tab = 'ner' | 'summarization' | 'qa' | 'comparison' | 'batch' | 'analytics' | 'finetune' | 'guide';
+type Tab = 'ner' | 'summarization' | 'qa' | 'comparison' | 'batch' | 'analytics' | 'timeline' | 'audit' | 'finetune' | 'guide';
 
 function ClinicalNLPApp() {
   const [activeTab, setActiveTab] = useState<Tab>('ner');
   const [isHistoryOpen, setIsHistoryOpen] = useState(false);
   const [isAboutOpen, setIsAboutOpen] = useState(false);
   const [isPrivacyOpen, setIsPrivacyOpen] = useState(false);
+  const { mode: deidMode, clearMappings } = useDeidentification();
+  const { user, signOut } = useAuth();
+  const { showNotification } = useNotification();
+
+  // The mapping back to the original text is PHI: don't leave it behind for the next user.
+  // Cleared before signing out, since the provider unmounts as soon as the session is gone
+  const handleSignOut = async () => {
+    clearMappings();
+    try {
+      await signOut();
+    } catch (error) {
+      showNotification(error instanceof Error ? error.message : 'Sign-out failed', 'error');
+    }
+  };
 
   const tabs = [
     { id: 'ner' as Tab, label: 'NER Analysis', icon: Activity, color: 'text-blue-600' },
@@ -62,6 +88,8 @@ function ClinicalNLPApp() {
     { id: 'comparison' as Tab, label: 'Model Compare', icon: GitCompare, color: 'text-purple-600' },
     { id: 'batch' as Tab, label: 'Batch Process', icon: Layers, color: 'text-orange-600' },
     { id: 'analytics' as Tab, label: 'Analytics', icon: BarChart3, color: 'text-pink-600' },
+    { id: 'timeline' as Tab, label: 'Timeline', icon: CalendarClock, color: 'text-cyan-600' },
+    { id: 'audit' as Tab, label: 'Audit', icon: ScrollText, color: 'text-slate-600' },
     { id: 'finetune' as Tab, label: 'Fine-Tune', icon: Settings, color: 'text-indigo-600' },
     { id: 'guide' as Tab, label: 'Guide', icon: BookOpen, color: 'text-gray-600' },
   ];
@@ -90,7 +118,8 @@ function ClinicalNLPApp() {
             </div>
 
             <div className="flex items-center space-x-4">
-              <div className="hidden md:flex items-center space-x-2 text-sm text-gray-600 mr-4">
+              <ProjectSwitcher />
+              <div className="hidden xl:flex items-center space-x-2 text-sm text-gray-600 mr-4">
                 <span className="px-3 py-1 bg-blue-50 text-blue-700 rounded-full font-medium text-xs border border-blue-100">
                   BioBERT
                 </span>
@@ -101,6 +130,14 @@ function ClinicalNLPApp() {
                   PubMedBERT
                 </span>
               </div>
+              <button
+                onClick={() => setIsPrivacyOpen(true)}
+                className="flex items-center space-x-1 px-3 py-1 bg-emerald-50 text-emerald-700 rounded-full font-medium text-xs border border-emerald-100 hover:bg-emerald-100 transition-colors"
+                title="PHI is removed in the browser before text is sent. Click to change the mode."
+              >
+                <ShieldCheck className="w-4 h-4" />
+                <span>PHI: {DEID_MODE_LABELS[deidMode].label}</span>
+              </button>
               <button
                 onClick={() => setIsHistoryOpen(true)}
                 className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg transition-colors relative group"
@@ -109,6 +146,19 @@ function ClinicalNLPApp() {
                 <History className="w-5 h-5 group-hover:text-blue-600" />
                 <span className="absolute top-0 right-0 w-2 h-2 bg-red-500 rounded-full ring-2 ring-white"></span>
               </button>
+              <div className="flex items-center space-x-2 pl-4 border-l border-gray-200">
+                <span className="hidden sm:inline text-xs text-gray-500 font-medium max-w-[12rem] truncate" title={user?.email}>
+                  {user?.email}
+                </span>
+                <button
+                  onClick={handleSignOut}
+                  className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg transition-colors group"
+                  aria-label="Sign out"
+                  title="Sign out"
+                >
+                  <LogOut className="w-5 h-5 group-hover:text-red-600" />
+                </button>
+              </div>
             </div>
           </div>
         </div>
@@ -152,6 +202,8 @@ function ClinicalNLPApp() {
           {activeTab === 'comparison' && <ModelComparison />}
           {activeTab === 'batch' && <BatchProcessing />}
           {activeTab === 'analytics' && <Analytics />}
+          {activeTab === 'timeline' && <Timeline />}
+          {activeTab === 'audit' && <AuditLog />}
           {activeTab === 'finetune' && <FineTuning />}
           {activeTab === 'guide' && <Guide />}
         </div>
@@ -208,12 +260,31 @@ function ClinicalNLPApp() {
   );
 }
 
-function App() {
+// Everything but the sign-in screen needs a session and a project: the tables are scoped
+// to the projects of the signed-in user's workspaces
+function AuthGate() {
+  const { session, ready } = useAuth();
+
+  if (!ready) return null;
+  if (!session) return <SignIn />;
+
   return (
-    <NotificationProvider>
+    <ProjectProvider>
       <FileProvider>
-        <ClinicalNLPApp />
+        <DeidentificationProvider>
+          <ClinicalNLPApp />
+        </DeidentificationProvider>
       </FileProvider>
+    </ProjectProvider>
+  );
+}
+
+function App() {
+  return (
+    <NotificationProvider>
+      <AuthProvider>
+        <AuthGate />
+      </AuthProvider>
     </NotificationProvider>
   );
 }
@@ -1,18 +1,21 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import {
   BarChart as BarChartIcon,
   TrendingUp,
   Activity,
   Clock,
   RefreshCw,
-  AlertCircle
+  AlertCircle,
+  Tags
 } from 'lucide-react';
 import {
   PieChart, Pie, Cell, ResponsiveContainer,
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, Legend,
   AreaChart, Area
 } from 'recharts';
-import { supabase, ClinicalAnalysis, ModelPerformance } from '../lib/supabase';
+import { supabase, ClinicalAnalysis, ExtractedEntity, ModelPerformance } from '../lib/supabase';
+import { CODE_SYSTEMS, CodeSystem } from '../lib/api';
+import { useProject } from '../context/ProjectContext';
 
 interface AnalyticsStats {
   totalAnalyses: number;
@@ -22,32 +25,83 @@ interface AnalyticsStats {
   analysisTypeDistribution: Record<string, number>;
 }
 
+type ConceptRow = Pick<ExtractedEntity, 'entity_type' | 'entity_text' | 'concept_system' | 'concept_code' | 'concept_display'>;
+
+interface ConceptCount {
+  system: string;
+  code: string;
+  display: string;
+  count: number;
+  // Distinct entity texts that were mapped to this concept
+  texts: string[];
+}
+
 const COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#8B5CF6', '#EC4899', '#6366F1'];
 
+// Stats are stored per project; across projects they are summed per model, with the
+// confidence averaged over the analyses that reported one
+function combineModelStats(rows: ModelPerformance[]): ModelPerformance[] {
+  const byModel = new Map<string, ModelPerformance>();
+  rows.forEach(row => {
+    const existing = byModel.get(row.model_name);
+    if (!existing) {
+      byModel.set(row.model_name, { ...row });
+      return;
+    }
+    const samples = (existing.confidence_samples ?? 0) + (row.confidence_samples ?? 0);
+    existing.avg_confidence = samples > 0
+      ? (existing.avg_confidence * (existing.confidence_samples ?? 0) + row.avg_confidence * (row.confidence_samples ?? 0)) / samples
+      : 0;
+    existing.confidence_samples = samples;
+    existing.analysis_count += row.analysis_count;
+    existing.total_entities_extracted += row.total_entities_extracted;
+    if (row.last_used > existing.last_used) existing.last_used = row.last_used;
+  });
+  return [...byModel.values()].sort((a, b) => b.analysis_count - a.analysis_count);
+}
+
 export default function Analytics() {
+  const { project, projects, workspaces } = useProject();
+  // '' = every project the user can see
+  const [projectFilter, setProjectFilter] = useState(project.id);
   const [stats, setStats] = useState<AnalyticsStats | null>(null);
   const [modelPerformance, setModelPerformance] = useState<ModelPerformance[]>([]);
   const [recentAnalyses, setRecentAnalyses] = useState<ClinicalAnalysis[]>([]);
+  const [conceptRows, setConceptRows] = useState<ConceptRow[]>([]);
+  // '' = all vocabularies, 'unmapped' = entities without a concept code
+  const [conceptSystem, setConceptSystem] = useState<CodeSystem | '' | 'unmapped'>('');
+  const [conceptQuery, setConceptQuery] = useState('');
   const [loading, setLoading] = useState(true);
 
-  const loadAnalytics = async () => {
+  const loadAnalytics = useCallback(async () => {
     setLoading(true);
 
     // Fetch more analyses to ensure we have a good dataset for fallback calculations
-    const { data: analyses } = await supabase
+    let analysesQuery = supabase
       .from('clinical_analyses')
       .select('*')
       .order('created_at', { ascending: false })
       .limit(100);
 
-    const { data: models } = await supabase
+    let modelsQuery = supabase
       .from('model_performance')
       .select('*')
       .order('analysis_count', { ascending: false });
 
-    const { data: entities } = await supabase
+    let entitiesQuery = supabase
       .from('extracted_entities')
-      .select('entity_type');
+      .select('entity_type, entity_text, concept_system, concept_code, concept_display');
+
+    if (projectFilter) {
+      analysesQuery = analysesQuery.eq('project_id', projectFilter);
+      modelsQuery = modelsQuery.eq('project_id', projectFilter);
+      entitiesQuery = entitiesQuery.eq('project_id', projectFilter);
+    }
+
+    const { data: analyses } = await analysesQuery;
+    const { data: modelRows } = await modelsQuery;
+    const { data: entities } = await entitiesQuery;
+    const models = projectFilter ? modelRows : combineModelStats(modelRows || []);
 
     const totalAnalyses = analyses?.length || 0;
     const avgConfidence = analyses && analyses.length > 0
@@ -104,12 +158,18 @@ export default function Analytics() {
     }
 
     setRecentAnalyses(analyses || []);
+    setConceptRows(entities || []);
     setLoading(false);
-  };
+  }, [projectFilter]);
+
+  // Follow the project picked in the header
+  useEffect(() => {
+    setProjectFilter(project.id);
+  }, [project.id]);
 
   useEffect(() => {
     loadAnalytics();
-  }, []);
+  }, [loadAnalytics]);
 
   if (loading || !stats) {
     return (
@@ -145,6 +205,31 @@ export default function Analytics() {
     type: a.analysis_type
   }));
 
+  const query = conceptQuery.trim().toLowerCase();
+  const filteredConceptRows = conceptRows.filter(e => {
+    if (conceptSystem === 'unmapped' && e.concept_code) return false;
+    if (conceptSystem && conceptSystem !== 'unmapped' && e.concept_system !== conceptSystem) return false;
+    if (!query) return true;
+    return [e.concept_code, e.concept_display, e.entity_text].some(v => v?.toLowerCase().includes(query));
+  });
+  const mappedCount = conceptRows.filter(e => e.concept_code).length;
+
+  const conceptCounts = Object.values(filteredConceptRows.reduce((acc: Record<string, ConceptCount>, e) => {
+    const key = e.concept_code ? `${e.concept_system}|${e.concept_code}` : `unmapped|${e.entity_text.toLowerCase()}`;
+    if (!acc[key]) {
+      acc[key] = {
+        system: e.concept_system ?? 'Unmapped',
+        code: e.concept_code ?? '-',
+        display: e.concept_display ?? e.entity_text,
+        count: 0,
+        texts: [],
+      };
+    }
+    acc[key].count += 1;
+    if (!acc[key].texts.includes(e.entity_text)) acc[key].texts.push(e.entity_text);
+    return acc;
+  }, {})).sort((a, b) => b.count - a.count).slice(0, 15);
+
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
       return (
@@ -177,13 +262,30 @@ export default function Analytics() {
             <h2 className="text-2xl font-bold text-gray-900 mb-2">Analytics Dashboard</h2>
             <p className="text-gray-600">Real-time performance metrics and usage statistics</p>
           </div>
-          <button
-            onClick={loadAnalytics}
-            className="flex items-center space-x-2 px-4 py-2 bg-pink-50 text-pink-700 rounded-lg hover:bg-pink-100 transition-colors border border-pink-200"
-          >
-            <RefreshCw className="w-4 h-4" />
-            <span>Refresh</span>
-          </button>
+          <div className="flex items-center space-x-2">
+            <select
+              value={projectFilter}
+              onChange={(e) => setProjectFilter(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+              aria-label="Project"
+            >
+              <option value="">All projects</option>
+              {workspaces.map(w => (
+                <optgroup key={w.id} label={w.name}>
+                  {projects.filter(p => p.workspace_id === w.id).map(p => (
+                    <option key={p.id} value={p.id}>{p.name}</option>
+                  ))}
+                </optgroup>
+              ))}
+            </select>
+            <button
+              onClick={loadAnalytics}
+              className="flex items-center space-x-2 px-4 py-2 bg-pink-50 text-pink-700 rounded-lg hover:bg-pink-100 transition-colors border border-pink-200"
+            >
+              <RefreshCw className="w-4 h-4" />
+              <span>Refresh</span>
+            </button>
+          </div>
         </div>
 
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
@@ -334,6 +436,72 @@ export default function Analytics() {
         </div>
       </div>
 
+      {/* Normalized Concepts */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+          <div>
+            <div className="flex items-center space-x-2">
+              <Tags className="w-5 h-5 text-indigo-500" />
+              <h3 className="text-lg font-semibold text-gray-900">Normalized Concepts</h3>
+            </div>
+            <p className="text-sm text-gray-500 mt-1">
+              {mappedCount} of {conceptRows.length} entities mapped to a concept code
+              {conceptRows.length > 0 && ` (${((mappedCount / conceptRows.length) * 100).toFixed(0)}%)`}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <select
+              value={conceptSystem}
+              onChange={(e) => setConceptSystem(e.target.value as CodeSystem | '' | 'unmapped')}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            >
+              <option value="">All vocabularies</option>
+              {CODE_SYSTEMS.map(system => (
+                <option key={system} value={system}>{system}</option>
+              ))}
+              <option value="unmapped">Unmapped</option>
+            </select>
+            <input
+              type="text"
+              value={conceptQuery}
+              onChange={(e) => setConceptQuery(e.target.value)}
+              placeholder="Code or name, e.g. 8500/3"
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            />
+          </div>
+        </div>
+        {conceptCounts.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-2 pr-4 font-medium">Code</th>
+                  <th className="py-2 pr-4 font-medium">Concept</th>
+                  <th className="py-2 pr-4 font-medium">Vocabulary</th>
+                  <th className="py-2 pr-4 font-medium">Entities</th>
+                  <th className="py-2 font-medium">As written</th>
+                </tr>
+              </thead>
+              <tbody>
+                {conceptCounts.map(concept => (
+                  <tr key={`${concept.system}|${concept.code}|${concept.display}`} className="border-b border-gray-100">
+                    <td className="py-2 pr-4 font-mono text-gray-800">{concept.code}</td>
+                    <td className="py-2 pr-4 text-gray-800">{concept.display}</td>
+                    <td className="py-2 pr-4 text-gray-600">{concept.system}</td>
+                    <td className="py-2 pr-4 font-semibold text-gray-900">{concept.count}</td>
+                    <td className="py-2 text-gray-500 truncate max-w-[240px]">{concept.texts.slice(0, 4).join(', ')}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="h-32">
+            <EmptyState message="No entities match this filter" />
+          </div>
+        )}
+      </div>
+
       {/* Recent List - Compact */}
       <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
         <div className="flex items-center space-x-2 mb-6">
@@ -0,0 +1,301 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ScrollText, Search, Download, RefreshCw, Loader2, AlertCircle } from 'lucide-react';
+import { supabase, AuditAction, AuditEvent, logAuditEvent } from '../lib/supabase';
+import { exportAsJSON, exportAsCSV } from '../lib/utils';
+import { useProject } from '../context/ProjectContext';
+
+const PAGE_SIZE = 100;
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  analyze: 'Analyzed',
+  save: 'Saved',
+  view_history: 'Viewed history',
+  export: 'Exported',
+  delete: 'Deleted',
+};
+
+const ACTION_STYLES: Record<AuditAction, string> = {
+  analyze: 'bg-blue-100 text-blue-700',
+  save: 'bg-green-100 text-green-700',
+  view_history: 'bg-gray-100 text-gray-700',
+  export: 'bg-amber-100 text-amber-700',
+  delete: 'bg-red-100 text-red-700',
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// PostgREST filter syntax characters are dropped from the search text
+function searchFilter(query: string) {
+  const value = query.trim().replace(/[,()*%\\:"]/g, '');
+  if (!value) return null;
+  const filters = [`actor_email.ilike.*${value}*`, `input_hash.ilike.${value.toLowerCase()}*`];
+  if (UUID_PATTERN.test(value)) filters.push(`target_id.eq.${value}`, `actor_id.eq.${value}`);
+  return filters.join(',');
+}
+
+export default function AuditLog() {
+  const { project, projects, workspaces } = useProject();
+  // '' = every project the user can see
+  const [projectFilter, setProjectFilter] = useState(project.id);
+  const [action, setAction] = useState<AuditAction | ''>('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [query, setQuery] = useState('');
+  // The search box is applied on submit, the other filters right away
+  const [appliedQuery, setAppliedQuery] = useState('');
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setProjectFilter(project.id);
+  }, [project.id]);
+
+  // offset 0 replaces the list, later pages are appended
+  const loadEvents = useCallback(async (offset: number) => {
+    setLoading(true);
+    setError('');
+
+    let request = supabase
+      .from('audit_events')
+      .select('*')
+      .order('occurred_at', { ascending: false })
+      .range(offset, offset + PAGE_SIZE - 1);
+    if (projectFilter) request = request.eq('project_id', projectFilter);
+    if (action) request = request.eq('action', action);
+    // Local days; `to` includes the whole day
+    if (from) request = request.gte('occurred_at', new Date(`${from}T00:00`).toISOString());
+    if (to) request = request.lt('occurred_at', new Date(new Date(`${to}T00:00`).getTime() + 24 * 3600 * 1000).toISOString());
+    const search = searchFilter(appliedQuery);
+    if (search) request = request.or(search);
+
+    const { data, error: loadError } = await request;
+    if (loadError) {
+      setError(loadError.message);
+    } else {
+      const page = (data || []) as AuditEvent[];
+      setEvents(prev => offset === 0 ? page : [...prev, ...page]);
+      setHasMore(page.length === PAGE_SIZE);
+    }
+    setLoading(false);
+  }, [projectFilter, action, from, to, appliedQuery]);
+
+  useEffect(() => {
+    loadEvents(0);
+  }, [loadEvents]);
+
+  const projectName = (id: string | null) => projects.find(p => p.id === id)?.name ?? '—';
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setAppliedQuery(query);
+  };
+
+  // Same text, other events: search by its hash
+  const showHash = (hash: string) => {
+    setQuery(hash);
+    setAppliedQuery(hash);
+  };
+
+  // Exports the events loaded with the current filters; the export is audited too
+  const handleExport = (format: 'json' | 'csv') => {
+    const rows = events.map(e => ({
+      occurred_at: e.occurred_at,
+      actor_email: e.actor_email ?? '',
+      actor_id: e.actor_id ?? '',
+      action: e.action,
+      source: e.source,
+      project: e.project_id ? projectName(e.project_id) : '',
+      project_id: e.project_id ?? '',
+      target_type: e.target_type ?? '',
+      target_id: e.target_id ?? '',
+      input_hash: e.input_hash ?? '',
+      parameters: e.parameters,
+    }));
+    if (format === 'json') {
+      exportAsJSON(rows, 'audit-events.json');
+    } else {
+      exportAsCSV(rows, 'audit-events.csv');
+    }
+    logAuditEvent({
+      projectId: projectFilter || null,
+      action: 'export',
+      targetType: 'audit',
+      parameters: { format, count: rows.length, filters: { action: action || null, from: from || null, to: to || null, query: appliedQuery || null } },
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+          <div>
+            <div className="flex items-center space-x-2">
+              <ScrollText className="w-6 h-6 text-slate-600" />
+              <h2 className="text-2xl font-bold text-gray-900">Audit Log</h2>
+            </div>
+            <p className="text-sm text-gray-500 mt-1">
+              Who analyzed, saved, viewed, exported or deleted what, and when. Workspace owners see every event of their
+              projects, everyone else their own. Events cannot be changed or deleted.
+            </p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => handleExport('csv')}
+              disabled={events.length === 0}
+              className="flex items-center space-x-2 px-4 py-2 bg-slate-700 text-white rounded-lg text-sm hover:bg-slate-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <Download className="w-4 h-4" />
+              <span>CSV</span>
+            </button>
+            <button
+              onClick={() => handleExport('json')}
+              disabled={events.length === 0}
+              className="flex items-center space-x-2 px-4 py-2 bg-slate-100 text-slate-700 rounded-lg text-sm hover:bg-slate-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors border border-slate-200"
+            >
+              <Download className="w-4 h-4" />
+              <span>JSON</span>
+            </button>
+            <button
+              onClick={() => loadEvents(0)}
+              className="p-2 text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+              title="Refresh"
+            >
+              <RefreshCw className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <form onSubmit={handleSearch} className="flex flex-wrap items-center gap-2 mb-6">
+          <select
+            value={projectFilter}
+            onChange={(e) => setProjectFilter(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-slate-500 focus:border-transparent"
+            aria-label="Project"
+          >
+            <option value="">All projects</option>
+            {workspaces.map(w => (
+              <optgroup key={w.id} label={w.name}>
+                {projects.filter(p => p.workspace_id === w.id).map(p => (
+                  <option key={p.id} value={p.id}>{p.name}</option>
+                ))}
+              </optgroup>
+            ))}
+          </select>
+          <select
+            value={action}
+            onChange={(e) => setAction(e.target.value as AuditAction | '')}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-slate-500 focus:border-transparent"
+            aria-label="Action"
+          >
+            <option value="">All actions</option>
+            {(Object.keys(ACTION_LABELS) as AuditAction[]).map(a => (
+              <option key={a} value={a}>{ACTION_LABELS[a]}</option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-slate-500 focus:border-transparent"
+            aria-label="From"
+          />
+          <span className="text-gray-400 text-sm">to</span>
+          <input
+            type="date"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-slate-500 focus:border-transparent"
+            aria-label="To"
+          />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Email, input hash or record id"
+            className="flex-1 min-w-[14rem] px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-slate-500 focus:border-transparent"
+          />
+          <button
+            type="submit"
+            className="flex items-center space-x-2 px-4 py-2 bg-slate-100 text-slate-700 rounded-lg text-sm hover:bg-slate-200 transition-colors border border-slate-200"
+          >
+            <Search className="w-4 h-4" />
+            <span>Search</span>
+          </button>
+        </form>
+
+        {error ? (
+          <div className="flex items-center space-x-2 text-red-700 bg-red-50 border border-red-200 rounded-lg p-4 text-sm">
+            <AlertCircle className="w-5 h-5 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        ) : loading && events.length === 0 ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-slate-600" />
+          </div>
+        ) : events.length === 0 ? (
+          <p className="text-center text-gray-500 py-12">No events match these filters.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-2 pr-4 font-medium">Time</th>
+                  <th className="py-2 pr-4 font-medium">Actor</th>
+                  <th className="py-2 pr-4 font-medium">Action</th>
+                  {!projectFilter && <th className="py-2 pr-4 font-medium">Project</th>}
+                  <th className="py-2 pr-4 font-medium">Target</th>
+                  <th className="py-2 pr-4 font-medium">Input hash</th>
+                  <th className="py-2 font-medium">Parameters</th>
+                </tr>
+              </thead>
+              <tbody>
+                {events.map(e => (
+                  <tr key={e.id} className="border-b border-gray-100 align-top">
+                    <td className="py-2 pr-4 text-gray-600 whitespace-nowrap">{new Date(e.occurred_at).toLocaleString()}</td>
+                    <td className="py-2 pr-4 text-gray-900">
+                      {e.actor_email ?? (e.actor_id ? e.actor_id.slice(0, 8) : <span className="text-gray-400">service</span>)}
+                    </td>
+                    <td className="py-2 pr-4 whitespace-nowrap">
+                      <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${ACTION_STYLES[e.action]}`}>{ACTION_LABELS[e.action]}</span>
+                      <span className="block text-[10px] text-gray-400 mt-1">{e.source.replace('_', ' ')}</span>
+                    </td>
+                    {!projectFilter && <td className="py-2 pr-4 text-gray-600">{projectName(e.project_id)}</td>}
+                    <td className="py-2 pr-4 text-gray-600 whitespace-nowrap">
+                      {e.target_type ?? '—'}
+                      {e.target_id && <span className="font-mono text-xs text-gray-400" title={e.target_id}> {e.target_id.slice(0, 8)}</span>}
+                    </td>
+                    <td className="py-2 pr-4">
+                      {e.input_hash ? (
+                        <button
+                          onClick={() => showHash(e.input_hash ?? '')}
+                          className="font-mono text-xs text-blue-600 hover:underline"
+                          title={`${e.input_hash}\nShow every event on this text`}
+                        >
+                          {e.input_hash.slice(0, 12)}
+                        </button>
+                      ) : '—'}
+                    </td>
+                    <td className="py-2 font-mono text-xs text-gray-500 max-w-xs truncate" title={JSON.stringify(e.parameters, null, 2)}>
+                      {JSON.stringify(e.parameters)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {hasMore && (
+              <button
+                onClick={() => loadEvents(events.length)}
+                disabled={loading}
+                className="w-full py-3 text-sm text-slate-600 hover:text-slate-900 font-medium disabled:opacity-50"
+              >
+                {loading ? 'Loading…' : 'Load more'}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,11 @@
 import { useState } from 'react';
 import { Upload, Play, Loader2, AlertCircle, CheckCircle, Download, FileText, Layers, Settings, Info, PieChart as PieChartIcon } from 'lucide-react';
-import { performNER } from '../lib/api';
-import { supabase } from '../lib/supabase';
+import { performNER, MODEL_OPTIONS } from '../lib/api';
+import { saveAnalysis, supabase, logAuditEvent } from '../lib/supabase';
 import { exportAsJSON, exportAsCSV } from '../lib/utils';
+import { restoreEntities } from '../lib/deidentify';
+import { useDeidentification } from '../context/DeidentificationContext';
+import { useProject } from '../context/ProjectContext';
 // eslint-disable-next-line @typescript-eslint/ban-ts-comment
 // @ts-ignore
 import mammoth from 'mammoth';
@@ -35,8 +38,10 @@ interface BatchResult {
 const COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#8B5CF6', '#EC4899', '#6366F1'];
 
 export default function BatchProcessing() {
+  const { scrub } = useDeidentification();
+  const { project, canEdit } = useProject();
   const [files, setFiles] = useState<File[]>([]);
-  const [model, setModel] = useState('ClinicalBERT');
+  const [model, setModel] = useState(MODEL_OPTIONS.ner[0].name);
   const [processing, setProcessing] = useState(false);
   const [results, setResults] = useState<BatchResult[]>([]);
   const [progress, setProgress] = useState(0);
@@ -44,6 +49,8 @@ export default function BatchProcessing() {
   const [successCount, setSuccessCount] = useState(0);
   const [totalEntities, setTotalEntities] = useState(0);
   const [avgConfidence, setAvgConfidence] = useState(0);
+  // batch_analyses row of the current results, if they were stored
+  const [batchId, setBatchId] = useState<string | null>(null);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFiles = Array.from(e.target.files || []);
@@ -68,15 +75,18 @@ export default function BatchProcessing() {
     setAvgConfidence(0);
     const batchResults: BatchResult[] = [];
 
-    const { data: batchRecord } = await supabase
+    // Viewers can run a batch, but only owners and annotators store it in the project
+    const { data: batchRecord } = canEdit ? await supabase
       .from('batch_analyses')
       .insert({
+        project_id: project.id,
         batch_name: `Batch ${new Date().toLocaleString()}`,
         total_documents: files.length,
         status: 'processing',
       })
       .select()
-      .single();
+      .single() : { data: null };
+    setBatchId(batchRecord?.id ?? null);
 
     for (let i = 0; i < files.length; i++) {
       const file = files[i];
@@ -109,11 +119,12 @@ export default function BatchProcessing() {
       }
 
       try {
-        const result = await performNER(text, model, 0.5);
+        // Only de-identified text leaves the browser
+        const deid = scrub(text);
+        const result = await performNER(deid.text, model, 0.5, false, deid.mode, project.id);
 
         // Calculate summary of entity types
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const summary = (result as any).entities.reduce((acc: Record<string, number>, entity: any) => {
+        const summary = result.entities.reduce((acc: Record<string, number>, entity) => {
           acc[entity.type] = (acc[entity.type] || 0) + 1;
           return acc;
         }, {});
@@ -121,28 +132,27 @@ export default function BatchProcessing() {
         batchResults.push({
           filename: file.name,
           success: true,
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          entityCount: (result as any).entityCount,
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          avgConfidence: (result as any).avgConfidence,
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          entities: (result as any).entities,
+          entityCount: result.entityCount,
+          avgConfidence: result.avgConfidence,
+          entities: restoreEntities(result.entities, deid, text),
           entitySummary: summary
         });
 
-        await supabase.from('clinical_analyses').insert({
-          input_text: text,
-          model_used: model,
-          analysis_type: 'Batch NER',
-          results: result,
-          confidence_score: result.avgConfidence,
-        });
+        if (canEdit) {
+          await saveAnalysis({
+            projectId: project.id,
+            inputText: deid.text,
+            model: result.model,
+            analysisType: 'Batch NER',
+            results: { ...result, deidentification: deid.mode },
+            confidenceScore: result.avgConfidence,
+            entities: result.entities,
+          }).catch(saveErr => console.error(saveErr));
+        }
 
         setSuccessCount(prev => prev + 1);
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        setTotalEntities(prev => prev + (result as any).entityCount);
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        setAvgConfidence(prev => (prev * i + (result as any).avgConfidence) / (i + 1));
+        setTotalEntities(prev => prev + result.entityCount);
+        setAvgConfidence(prev => (prev * i + result.avgConfidence) / (i + 1));
 
       } catch (err) {
         batchResults.push({
@@ -179,6 +189,30 @@ export default function BatchProcessing() {
 
   const [selectedResult, setSelectedResult] = useState<BatchResult | null>(null);
 
+  // File names are not de-identified, so they stay out of the audit log
+  const handleExport = (format: 'json' | 'csv', exported: BatchResult[], filename: string) => {
+    if (format === 'json') {
+      exportAsJSON(exported, filename);
+    } else {
+      // One row per document; the entities themselves are in the JSON export
+      exportAsCSV(exported.map(r => ({
+        filename: r.filename,
+        success: r.success ? 'yes' : 'no',
+        entity_count: r.entityCount ?? '',
+        avg_confidence: r.avgConfidence ?? '',
+        entity_types: Object.entries(r.entitySummary ?? {}).map(([type, count]) => `${type}: ${count}`).join('; '),
+        error: r.error ?? '',
+      })), filename);
+    }
+    logAuditEvent({
+      projectId: project.id,
+      action: 'export',
+      targetType: batchId ? 'batch' : undefined,
+      targetId: batchId ?? undefined,
+      parameters: { tab: 'batch', format, model, documents: exported.length },
+    });
+  };
+
   // Aggregate entity summary for the pie chart
   const aggregateSummary = results.reduce((acc: Record<string, number>, result) => {
     if (result.success && result.entitySummary) {
@@ -227,9 +261,9 @@ export default function BatchProcessing() {
                   disabled={processing}
                   className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent transition-all"
                 >
-                  <option value="BioBERT">BioBERT (General)</option>
-                  <option value="ClinicalBERT">ClinicalBERT (Notes)</option>
-                  <option value="PubMedBERT">PubMedBERT (Research)</option>
+                  {MODEL_OPTIONS.ner.map((option) => (
+                    <option key={option.name} value={option.name}>{option.name} ({option.description})</option>
+                  ))}
                 </select>
               </div>
 
@@ -336,7 +370,7 @@ export default function BatchProcessing() {
               <h3 className="font-semibold text-gray-900">Queue ({files.length} files)</h3>
               {results.length > 0 && (
                 <div className="flex space-x-2">
-                  <button onClick={() => exportAsJSON(results, 'batch.json')} className="p-2 hover:bg-white rounded text-gray-600 hover:text-orange-600 transition-colors" title="Export JSON"><Download className="w-4 h-4" /></button>
+                  <button onClick={() => handleExport('json', results, 'batch.json')} className="p-2 hover:bg-white rounded text-gray-600 hover:text-orange-600 transition-colors" title="Export JSON"><Download className="w-4 h-4" /></button>
                 </div>
               )}
             </div>
@@ -442,7 +476,7 @@ export default function BatchProcessing() {
             </div>
 
             <button
-              onClick={() => exportAsCSV(results as any, 'batch-results.csv')}
+              onClick={() => handleExport('csv', results, 'batch-results.csv')}
               className="lg:col-span-4 bg-gray-900 text-white p-4 rounded-xl shadow-sm hover:bg-gray-800 transition-all flex flex-col items-center justify-center text-center mt-2"
             >
               <Download className="w-5 h-5 mb-1" />
@@ -468,7 +502,7 @@ export default function BatchProcessing() {
                 </div>
                 <div className="flex items-center space-x-2">
                   <button
-                    onClick={() => exportAsJSON([selectedResult], `analysis-${selectedResult.filename}.json`)}
+                    onClick={() => handleExport('json', [selectedResult], `analysis-${selectedResult.filename}.json`)}
                     className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors flex items-center space-x-2 text-sm font-medium"
                   >
                     <Download className="w-4 h-4" />
@@ -1,5 +1,8 @@
 import { useState, useEffect } from 'react';
-import { Settings, Upload, Sliders, AlertCircle, Info, Loader2, CheckCircle } from 'lucide-react';
+import { Settings, Upload, Sliders, AlertCircle, Info, Loader2, CheckCircle, Database } from 'lucide-react';
+import { supabase, Dataset } from '../lib/supabase';
+import { useProject } from '../context/ProjectContext';
+import { useNotification } from '../context/NotificationContext';
 
 export default function FineTuning() {
   const [selectedModel, setSelectedModel] = useState('ClinicalBERT');
@@ -7,6 +10,9 @@ export default function FineTuning() {
   const [batchSize, setBatchSize] = useState(16);
   const [epochs, setEpochs] = useState(3);
   const [dataset, setDataset] = useState<File | null>(null);
+  const [projectDatasets, setProjectDatasets] = useState<Dataset[]>([]);
+  const { project, canEdit } = useProject();
+  const { showNotification } = useNotification();
 
   const [isTraining, setIsTraining] = useState(false);
   const [progress, setProgress] = useState(0);
@@ -35,10 +41,40 @@ export default function FineTuning() {
     }
   }, [isTraining]);
 
-  const handleDatasetUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  useEffect(() => {
+    const loadDatasets = async () => {
+      const { data } = await supabase
+        .from('datasets')
+        .select('*')
+        .eq('project_id', project.id)
+        .order('created_at', { ascending: false });
+      setProjectDatasets(data || []);
+    };
+    loadDatasets();
+  }, [project.id]);
+
+  const handleDatasetUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
       setDataset(file);
+      // Only the metadata is registered with the project; the file stays in the browser
+      if (canEdit) {
+        const { data, error } = await supabase
+          .from('datasets')
+          .insert({
+            project_id: project.id,
+            name: file.name.replace(/\.[^.]+$/, ''),
+            file_name: file.name,
+            size_bytes: file.size,
+          })
+          .select()
+          .single();
+        if (error) {
+          showNotification(`Could not register the dataset: ${error.message}`, 'error');
+        } else if (data) {
+          setProjectDatasets(prev => [data, ...prev]);
+        }
+      }
     }
   };
 
@@ -167,6 +203,26 @@ export default function FineTuning() {
           )}
         </div>
 
+        {projectDatasets.length > 0 && (
+          <div className="mt-4">
+            <h4 className="text-sm font-medium text-gray-700 mb-2 flex items-center space-x-2">
+              <Database className="w-4 h-4 text-indigo-600" />
+              <span>Datasets in {project.name}</span>
+            </h4>
+            <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+              {projectDatasets.map(d => (
+                <li key={d.id} className="flex items-center justify-between px-4 py-2 text-sm">
+                  <span className="text-gray-900 truncate">{d.name}</span>
+                  <span className="text-xs text-gray-500 flex-shrink-0 ml-4">
+                    {d.size_bytes != null && `${(d.size_bytes / 1024).toFixed(2)} KB · `}
+                    {new Date(d.created_at).toLocaleDateString()}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         <div className="mt-4 p-4 bg-amber-50 border border-amber-200 rounded-lg flex items-start space-x-2">
           <AlertCircle className="w-5 h-5 text-amber-600 flex-shrink-0 mt-0.5" />
           <div className="text-sm text-amber-800">
@@ -1,7 +1,9 @@
-import { useEffect, useState } from 'react';
-import { supabase } from '../lib/supabase';
+import { useCallback, useEffect, useState } from 'react';
+import { supabase, logAuditEvent } from '../lib/supabase';
 import { History, X, ChevronRight, Calendar } from 'lucide-react';
 import { useFileContext } from '../context/FileContext';
+import { useDeidentification } from '../context/DeidentificationContext';
+import { useProject } from '../context/ProjectContext';
 
 interface AnalysisHistoryItem {
     id: string;
@@ -9,8 +11,13 @@ interface AnalysisHistoryItem {
     analysis_type: string;
     input_text: string;
     model_used: string;
+    // Embedded count of the analysis' rows in extracted_entities
+    extracted_entities: { count: number }[];
+    documents: { title: string } | null;
 }
 
+const PAGE_SIZE = 20;
+
 interface HistoryPanelProps {
     isOpen: boolean;
     onClose: () => void;
@@ -20,35 +27,52 @@ interface HistoryPanelProps {
 export default function HistoryPanel({ isOpen, onClose, onSelect }: HistoryPanelProps) {
     const [history, setHistory] = useState<AnalysisHistoryItem[]>([]);
     const [loading, setLoading] = useState(false);
+    const [hasMore, setHasMore] = useState(false);
     const { setCurrentText } = useFileContext();
+    const { restore } = useDeidentification();
+    const { project } = useProject();
 
-    useEffect(() => {
-        if (isOpen) {
-            fetchHistory();
-        }
-    }, [isOpen]);
-
-    const fetchHistory = async () => {
+    // offset 0 replaces the list, later pages are appended
+    const fetchHistory = useCallback(async (offset: number) => {
         setLoading(true);
         try {
             const { data, error } = await supabase
                 .from('clinical_analyses')
-                .select('id, created_at, analysis_type, input_text, model_used')
+                .select('id, created_at, analysis_type, input_text, model_used, extracted_entities(count), documents(title)')
+                .eq('project_id', project.id)
                 .order('created_at', { ascending: false })
-                .limit(20);
+                .range(offset, offset + PAGE_SIZE - 1);
 
             if (!error && data) {
-                setHistory(data);
+                const page = data as unknown as AnalysisHistoryItem[];
+                setHistory(prev => offset === 0 ? page : [...prev, ...page]);
+                setHasMore(page.length === PAGE_SIZE);
+                logAuditEvent({ projectId: project.id, action: 'view_history', parameters: { view: 'history', offset, count: page.length } });
             }
         } catch (err) {
             console.error('Failed to fetch history', err);
         } finally {
             setLoading(false);
         }
-    };
+    }, [project.id]);
+
+    useEffect(() => {
+        if (isOpen) {
+            fetchHistory(0);
+        }
+    }, [isOpen, fetchHistory]);
 
     const handleSelect = (item: AnalysisHistoryItem) => {
-        setCurrentText(item.input_text);
+        logAuditEvent({
+            projectId: project.id,
+            action: 'view_history',
+            targetType: 'analysis',
+            targetId: item.id,
+            inputText: item.input_text,
+            parameters: { view: 'history', analysisType: item.analysis_type },
+        });
+        // Stored text is scrubbed; the original is only available if it was scrubbed in this tab
+        setCurrentText(restore(item.input_text));
         // Map database types to tab IDs
         const tabMap: Record<string, string> = {
             'NER': 'ner',
@@ -76,7 +100,7 @@ export default function HistoryPanel({ isOpen, onClose, onSelect }: HistoryPanel
                 <div className="p-4 border-b border-gray-100 flex items-center justify-between bg-gray-50">
                     <h2 className="font-semibold text-gray-900 flex items-center">
                         <History className="w-5 h-5 mr-2 text-blue-600" />
-                        Recent Analysis
+                        <span className="truncate">Recent Analysis · {project.name}</span>
                     </h2>
                     <button
                         onClick={onClose}
@@ -87,7 +111,7 @@ export default function HistoryPanel({ isOpen, onClose, onSelect }: HistoryPanel
                 </div>
 
                 <div className="flex-1 overflow-y-auto p-4 space-y-3">
-                    {loading ? (
+                    {loading && history.length === 0 ? (
                         <div className="flex justify-center py-8">
                             <div className="animate-spin h-6 w-6 border-2 border-blue-600 border-t-transparent rounded-full"></div>
                         </div>
@@ -116,16 +140,31 @@ export default function HistoryPanel({ isOpen, onClose, onSelect }: HistoryPanel
                                         {new Date(item.created_at).toLocaleDateString()}
                                     </span>
                                 </div>
+                                {item.documents && (
+                                    <p className="text-xs font-medium text-gray-800 truncate mb-1">{item.documents.title}</p>
+                                )}
                                 <p className="text-sm text-gray-600 line-clamp-2 mb-2 font-mono bg-white p-1 rounded border border-gray-50">
-                                    {item.input_text.substring(0, 100)}...
+                                    {restore(item.input_text).substring(0, 100)}...
                                 </p>
                                 <div className="flex justify-between items-center mt-2">
-                                    <span className="text-xs text-gray-400">{item.model_used}</span>
+                                    <span className="text-xs text-gray-400">
+                                        {item.model_used}
+                                        {item.extracted_entities[0]?.count > 0 && ` · ${item.extracted_entities[0].count} entities`}
+                                    </span>
                                     <ChevronRight className="w-4 h-4 text-gray-300 group-hover:text-blue-500 transform group-hover:translate-x-1 transition-all" />
                                 </div>
                             </div>
                         ))
                     )}
+                    {hasMore && history.length > 0 && (
+                        <button
+                            onClick={() => fetchHistory(history.length)}
+                            disabled={loading}
+                            className="w-full py-2 text-sm text-blue-600 font-medium hover:bg-blue-50 rounded-lg transition-colors disabled:opacity-50"
+                        >
+                            {loading ? 'Loading...' : 'Load more'}
+                        </button>
+                    )}
                 </div>
             </div>
         </>
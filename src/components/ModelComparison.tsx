@@ -1,8 +1,11 @@
 import { useState } from 'react';
-import { Play, Loader2, AlertCircle, Trophy, TrendingUp } from 'lucide-react';
+import { Play, Loader2, AlertCircle, Trophy, TrendingUp, Clock, XCircle } from 'lucide-react';
 import TextInput from './TextInput';
 import { performComparison } from '../lib/api';
 import { getEntityColor, formatEntityType } from '../lib/utils';
+import { restoreEntities } from '../lib/deidentify';
+import { useDeidentification } from '../context/DeidentificationContext';
+import { useProject } from '../context/ProjectContext';
 
 
 
@@ -16,6 +19,10 @@ interface Entity {
 
 interface ModelResultTyped {
   model: string;
+  modelId: string;
+  status: 'ok' | 'error';
+  latencyMs: number;
+  error?: string;
   entityCount: number;
   avgConfidence: number;
   entities: Entity[];
@@ -31,6 +38,8 @@ interface ComparisonResult {
 }
 
 export default function ModelComparison() {
+  const { scrub } = useDeidentification();
+  const { project } = useProject();
   const [inputText, setInputText] = useState('');
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<ComparisonResult | null>(null);
@@ -46,8 +55,10 @@ export default function ModelComparison() {
     setError('');
 
     try {
-      const data = await performComparison(inputText);
-      setResult(data);
+      // Only de-identified text leaves the browser
+      const deid = scrub(inputText);
+      const data = await performComparison(deid.text, deid.mode, project.id);
+      setResult({ ...data, models: data.models.map(m => ({ ...m, entities: restoreEntities(m.entities, deid, inputText) })) });
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Comparison failed');
     } finally {
@@ -135,52 +146,72 @@ export default function ModelComparison() {
                     </div>
                   )}
 
-                  <h3 className={`text-xl font-bold ${color.text} mb-4`}>{model.model}</h3>
+                  <h3 className={`text-xl font-bold ${color.text}`}>{model.model}</h3>
+                  <p className="text-xs text-gray-500 font-mono mb-4 truncate" title={model.modelId}>{model.modelId}</p>
 
-                  <div className="space-y-3 bg-white rounded-lg p-4">
-                    <div className="flex justify-between">
-                      <span className="text-sm text-gray-600">Entities Found</span>
-                      <span className="font-bold text-gray-900">{model.entityCount}</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="text-sm text-gray-600">Avg Confidence</span>
-                      <span className="font-bold text-gray-900">
-                        {(model.avgConfidence * 100).toFixed(1)}%
-                      </span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="text-sm text-gray-600">Entity Types</span>
-                      <span className="font-bold text-gray-900">{model.entityTypes.length}</span>
-                    </div>
-                    <div className="flex justify-between items-center">
-                      <span className="text-sm text-gray-600">Performance</span>
-                      <div className="flex items-center space-x-1">
-                        <TrendingUp className={`w-4 h-4 ${color.text}`} />
-                        <span className={`font-bold ${color.text}`}>
-                          {((model.entityCount * model.avgConfidence) * 100).toFixed(0)}
-                        </span>
+                  {model.status === 'error' ? (
+                    <div className="bg-white rounded-lg p-4 border border-red-200">
+                      <div className="flex items-center space-x-2 text-red-700 font-medium mb-2">
+                        <XCircle className="w-4 h-4" />
+                        <span>Failed after {model.latencyMs} ms</span>
                       </div>
+                      <p className="text-xs text-red-600 break-words">{model.error}</p>
                     </div>
-                  </div>
+                  ) : (
+                    <>
+                      <div className="space-y-3 bg-white rounded-lg p-4">
+                        <div className="flex justify-between">
+                          <span className="text-sm text-gray-600 flex items-center">
+                            <Clock className="w-3 h-3 mr-1" />
+                            Latency
+                          </span>
+                          <span className="font-bold text-gray-900">{model.latencyMs} ms</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-sm text-gray-600">Entities Found</span>
+                          <span className="font-bold text-gray-900">{model.entityCount}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-sm text-gray-600">Avg Confidence</span>
+                          <span className="font-bold text-gray-900">
+                            {(model.avgConfidence * 100).toFixed(1)}%
+                          </span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-sm text-gray-600">Entity Types</span>
+                          <span className="font-bold text-gray-900">{model.entityTypes.length}</span>
+                        </div>
+                        <div className="flex justify-between items-center">
+                          <span className="text-sm text-gray-600">Performance</span>
+                          <div className="flex items-center space-x-1">
+                            <TrendingUp className={`w-4 h-4 ${color.text}`} />
+                            <span className={`font-bold ${color.text}`}>
+                              {((model.entityCount * model.avgConfidence) * 100).toFixed(0)}
+                            </span>
+                          </div>
+                        </div>
+                      </div>
 
-                  <div className="mt-4">
-                    <p className="text-xs text-gray-600 mb-2">Entity Types Detected:</p>
-                    <div className="flex flex-wrap gap-1">
-                      {model.entityTypes.slice(0, 6).map((type: string, tidx: number) => (
-                        <span
-                          key={tidx}
-                          className="px-2 py-1 bg-white rounded text-xs border border-gray-200"
-                        >
-                          {formatEntityType(type)}
-                        </span>
-                      ))}
-                      {model.entityTypes.length > 6 && (
-                        <span className="px-2 py-1 bg-white rounded text-xs border border-gray-200">
-                          +{model.entityTypes.length - 6}
-                        </span>
-                      )}
-                    </div>
-                  </div>
+                      <div className="mt-4">
+                        <p className="text-xs text-gray-600 mb-2">Entity Types Detected:</p>
+                        <div className="flex flex-wrap gap-1">
+                          {model.entityTypes.slice(0, 6).map((type: string, tidx: number) => (
+                            <span
+                              key={tidx}
+                              className="px-2 py-1 bg-white rounded text-xs border border-gray-200"
+                            >
+                              {formatEntityType(type)}
+                            </span>
+                          ))}
+                          {model.entityTypes.length > 6 && (
+                            <span className="px-2 py-1 bg-white rounded text-xs border border-gray-200">
+                              +{model.entityTypes.length - 6}
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                    </>
+                  )}
                 </div>
               );
             })}
@@ -189,7 +220,7 @@ export default function ModelComparison() {
           <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
             <h3 className="text-lg font-semibold text-gray-900 mb-6">Detailed Entity Comparison</h3>
             <div className="space-y-6">
-              {result.models.map((model: ModelResultTyped) => (
+              {result.models.filter((model: ModelResultTyped) => model.status === 'ok').map((model: ModelResultTyped) => (
                 <div key={model.model} className="border border-gray-200 rounded-lg p-4">
                   <h4 className="font-bold text-gray-900 mb-3">{model.model}</h4>
                   <div className="space-y-2">
@@ -1,10 +1,16 @@
 import { useState } from 'react';
-import { Play, Download, Loader2, AlertCircle, CheckCircle, Info, BarChart } from 'lucide-react';
+import { Play, Download, Loader2, AlertCircle, AlertTriangle, CheckCircle, Info, BarChart, Layers, FlaskConical, Pill } from 'lucide-react';
 import TextInput from './TextInput';
-import { performNER } from '../lib/api';
-import { supabase } from '../lib/supabase';
-import { getEntityColor, formatEntityType, exportAsJSON, exportAsCSV, calculateCompletenessScore, generateInsights } from '../lib/utils';
+import { performNER, MODEL_OPTIONS, Abbreviation, CacheInfo, ConceptMatch, MedicationRelation, RelationArgument, SECTION_LABELS, SectionInfo, SectionType } from '../lib/api';
+import { saveAnalysis, logAuditEvent } from '../lib/supabase';
+import { getEntityColor, formatEntityType, exportAsJSON, exportAsCSV, calculateCompletenessScore, generateInsights, ASSERTION_LABELS, ASSERTION_STYLES, AssertionStatus } from '../lib/utils';
+import { DEFAULT_LABEL_MAPPING, getLabelMapping, projectEntities } from '../lib/labels';
+import { extractStaging, StagingResult, STAGE_PREFIX_LABELS } from '../lib/staging';
+import { extractBiomarkers, BiomarkerPanel, ReceptorResult } from '../lib/biomarkers';
+import { DeidentifiedText, restoreEntities, toOriginalSpan } from '../lib/deidentify';
 import { useFileContext } from '../context/FileContext';
+import { useDeidentification } from '../context/DeidentificationContext';
+import { useProject } from '../context/ProjectContext';
 import { useNotification } from '../context/NotificationContext';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip as RechartsTooltip, Legend } from 'recharts';
 
@@ -14,6 +20,10 @@ interface Entity {
   confidence: number;
   start: number;
   end: number;
+  assertion?: AssertionStatus;
+  assertionTrigger?: string;
+  section?: SectionType;
+  concept?: ConceptMatch | null;
 }
 
 interface NERResult {
@@ -21,19 +31,80 @@ interface NERResult {
   entityCount: number;
   avgConfidence: number;
   entityTypes: string[];
+  negatedCount?: number;
+  medications?: MedicationRelation[];
+  sections?: SectionInfo[];
+  abbreviations?: Abbreviation[];
+  abbreviationsExpanded?: boolean;
+  windowCount?: number;
+  model: string;
+  modelId: string;
+  cache?: CacheInfo;
+  // Parsed client-side from the input text (src/lib/staging.ts, src/lib/biomarkers.ts)
+  staging?: StagingResult;
+  biomarkers?: BiomarkerPanel;
 }
 
+function describeReceptor(receptor: ReceptorResult) {
+  const details = [
+    receptor.percent !== undefined ? `${receptor.percent}%` : null,
+    receptor.ihcScore ? `IHC ${receptor.ihcScore}` : null,
+    receptor.ish ? `ISH ${receptor.ish}` : null,
+    receptor.lowPositive ? 'low positive' : null,
+    receptor.her2Low ? 'HER2-low' : null,
+  ].filter(Boolean);
+  return details.join(' · ');
+}
+
+// Offsets come back against the scrubbed text; map them onto the original for display
+function restoreResult(result: NERResult, deid: DeidentifiedText, original: string): NERResult {
+  if (deid.replacements.length === 0) return result;
+  const restore = <T extends { start: number; end: number }>(span: T) => toOriginalSpan(deid, span);
+  const argument = (arg: RelationArgument | null) => arg && restoreEntities([arg], deid, original)[0];
+
+  return {
+    ...result,
+    entities: restoreEntities(result.entities, deid, original),
+    medications: result.medications?.map(m => {
+      const restored = restore(m);
+      return {
+        ...restored,
+        drug: original.slice(restored.start, restored.end),
+        dose: argument(m.dose),
+        route: argument(m.route),
+        frequency: argument(m.frequency),
+        duration: argument(m.duration),
+      };
+    }),
+    sections: result.sections?.map(restore),
+    abbreviations: result.abbreviations?.map(restore),
+  };
+}
+
+const RECEPTOR_STATUS_COLORS: Record<ReceptorResult['status'], string> = {
+  positive: 'text-green-700',
+  negative: 'text-red-700',
+  equivocal: 'text-amber-700',
+};
+
 const COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#8B5CF6', '#EC4899', '#6366F1'];
 
 export default function NERAnalysis() {
   const { currentText: inputText, setCurrentText: setInputText } = useFileContext();
   const { showNotification } = useNotification();
-  const [model, setModel] = useState('ClinicalBERT');
+  const { scrub } = useDeidentification();
+  const { project, canEdit } = useProject();
+  const [model, setModel] = useState(MODEL_OPTIONS.ner[0].name);
   const [confidenceThreshold, setConfidenceThreshold] = useState(0.5);
+  const [expandAbbreviations, setExpandAbbreviations] = useState(false);
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<NERResult | null>(null);
+  // What was sent for the current result; exports are logged with its hash
+  const [sentText, setSentText] = useState('');
   const [error, setError] = useState('');
   const [hoveredType, setHoveredType] = useState<string | null>(null);
+  // Show entities with the model's own tags or projected onto the clinical dataset schema
+  const [labelView, setLabelView] = useState<'clinical' | 'model'>('clinical');
 
   const handleAnalyze = async () => {
     if (!inputText.trim()) {
@@ -55,45 +126,35 @@ export default function NERAnalysis() {
 
     try {
       showNotification('Starting entity extraction...', 'info');
-      const data = await performNER(inputText, model, confidenceThreshold) as NERResult;
+      // Only de-identified text leaves the browser; results are shown against the original
+      const deid = scrub(inputText);
+      const response: NERResult = await performNER(deid.text, model, confidenceThreshold, expandAbbreviations, deid.mode, project.id);
+      const data: NERResult = { ...restoreResult(response, deid, inputText), staging: extractStaging(inputText), biomarkers: extractBiomarkers(inputText) };
       setResult(data);
+      setSentText(deid.text);
 
       showNotification(`Successfully extracted ${data.entityCount} entities`, 'success');
+      if (deid.replacements.length > 0) {
+        showNotification(`${deid.replacements.length} PHI value(s) replaced before sending (${deid.mode})`, 'info');
+      }
 
-      await supabase.from('clinical_analyses').insert({
-        input_text: inputText,
-        model_used: model,
-        analysis_type: 'NER',
-        results: data,
-        confidence_score: data.avgConfidence,
-      });
-
-      await supabase.from('extracted_entities').insert(
-        data.entities.map((entity: Entity) => ({
-          analysis_id: null,
-          entity_text: entity.text,
-          entity_type: entity.type,
-          confidence: entity.confidence,
-          start_pos: entity.start,
-          end_pos: entity.end,
-        }))
-      );
-
-      try {
-        await supabase.rpc('execute_sql', {
-          query: `
-          UPDATE model_performance
-          SET
-            analysis_count = analysis_count + 1,
-            avg_confidence = (avg_confidence * analysis_count + ${data.avgConfidence}) / (analysis_count + 1),
-            total_entities_extracted = total_entities_extracted + ${data.entityCount},
-            last_used = now(),
-            updated_at = now()
-          WHERE model_name = '${model}'
-        `
-        });
-      } catch {
-        // Ignore stats update errors
+      // Viewers can analyze, but only owners and annotators store results in the project
+      if (canEdit) {
+        try {
+          await saveAnalysis({
+            projectId: project.id,
+            inputText: deid.text,
+            model: data.model,
+            analysisType: 'NER',
+            results: { ...response, staging: extractStaging(deid.text), biomarkers: extractBiomarkers(deid.text), deidentification: deid.mode },
+            confidenceScore: data.avgConfidence,
+            // Scrubbed entity text, like input_text
+            entities: response.entities,
+          });
+        } catch (saveErr) {
+          console.error(saveErr);
+          showNotification('Analysis done, but it could not be saved to history', 'error');
+        }
       }
 
     } catch (err) {
@@ -105,33 +166,67 @@ export default function NERAnalysis() {
     }
   };
 
+  const projection = result ? projectEntities(result.entities, getLabelMapping(DEFAULT_LABEL_MAPPING)) : null;
+  const displayEntities: Entity[] = (labelView === 'clinical' ? projection?.entities : result?.entities) ?? [];
+  const unmappedLabels = projection ? Object.entries(projection.unmapped) : [];
+  const assertionCounts = displayEntities.reduce((acc: Partial<Record<AssertionStatus, number>>, entity: Entity) => {
+    if (entity.assertion && entity.assertion !== 'present') {
+      acc[entity.assertion] = (acc[entity.assertion] || 0) + 1;
+    }
+    return acc;
+  }, {});
+
+  // Plain text between entities, with known abbreviations underlined and their expansion on hover
+  const withAbbreviations = (start: number, end: number) => {
+    let html = '';
+    let cursor = start;
+    (result?.abbreviations ?? [])
+      .filter(a => a.start >= start && a.end <= end)
+      .forEach(a => {
+        html += inputText.substring(cursor, a.start);
+        html += `<abbr class="underline decoration-dotted cursor-help" title="${a.expansion}">${inputText.substring(a.start, a.end)}</abbr>`;
+        cursor = a.end;
+      });
+    return html + inputText.substring(cursor, end);
+  };
+
   const highlightedText = () => {
-    if (!result || !result.entities.length) return inputText;
+    if (!result) return inputText;
 
-    const sortedEntities = [...result.entities].sort((a, b) => a.start - b.start);
+    const sortedEntities = [...displayEntities].sort((a, b) => a.start - b.start);
     let highlighted = '';
     let lastIndex = 0;
 
     sortedEntities.forEach((entity: Entity) => {
-      highlighted += inputText.substring(lastIndex, entity.start);
+      highlighted += withAbbreviations(lastIndex, entity.start);
 
       const isDimmed = hoveredType && hoveredType !== entity.type;
       const opacityClass = isDimmed ? 'opacity-20 saturate-0' : 'opacity-100';
       const transitionClass = 'transition-all duration-300';
-
-      highlighted += `<mark class="px-1 py-0.5 rounded ${getEntityColor(entity.type)} border ${opacityClass} ${transitionClass} cursor-help" title="${formatEntityType(entity.type)} (${(entity.confidence * 100).toFixed(1)}%)">${entity.text}</mark>`;
+      const assertion = entity.assertion ?? 'present';
+      const assertionNote = assertion !== 'present'
+        ? ` - ${ASSERTION_LABELS[assertion]}${entity.assertionTrigger ? ` ("${entity.assertionTrigger}")` : ''}`
+        : '';
+      const sectionNote = entity.section && entity.section !== 'body' ? ` [${SECTION_LABELS[entity.section]}]` : '';
+      const conceptNote = entity.concept ? ` - ${entity.concept.system} ${entity.concept.code} ${entity.concept.display}` : '';
+      const abbreviationNote = (result.abbreviations ?? [])
+        .filter(a => a.start >= entity.start && a.end <= entity.end)
+        .map(a => ` - ${a.abbreviation} = ${a.expansion}`)
+        .join('');
+
+      highlighted += `<mark class="px-1 py-0.5 rounded ${getEntityColor(entity.type)} border ${ASSERTION_STYLES[assertion]} ${opacityClass} ${transitionClass} cursor-help" title="${formatEntityType(entity.type)} (${(entity.confidence * 100).toFixed(1)}%)${assertionNote}${sectionNote}${conceptNote}${abbreviationNote}">${entity.text}</mark>`;
       lastIndex = entity.end;
     });
 
-    highlighted += inputText.substring(lastIndex);
+    highlighted += withAbbreviations(lastIndex, inputText.length);
     return highlighted;
   };
 
-  const entityGroups = result?.entities.reduce((acc: Record<string, Entity[]>, entity: Entity) => {
+  const entityGroups = displayEntities.reduce((acc: Record<string, Entity[]>, entity: Entity) => {
     if (!acc[entity.type]) acc[entity.type] = [];
     acc[entity.type].push(entity);
     return acc;
-  }, {}) || {};
+  }, {});
 
   const completeness = result ? calculateCompletenessScore(result.entities) : null;
   const insights = result ? generateInsights(result.entities) : [];
@@ -143,6 +238,40 @@ export default function NERAnalysis() {
     value: entities.length
   })).sort((a, b) => b.value - a.value);
 
+  const handleExport = (format: 'json' | 'csv') => {
+    if (!result) return;
+    if (format === 'json') {
+      exportAsJSON({
+        ...result,
+        labelMapping: projection?.mapping,
+        projectedEntities: projection?.entities,
+        unmappedLabels: projection?.unmapped,
+      }, 'ner-results.json');
+    } else {
+      exportAsCSV(displayEntities.map(e => ({
+        text: e.text,
+        type: e.type,
+        confidence: e.confidence,
+        start: e.start,
+        end: e.end,
+        section: e.section ?? '',
+        assertion: e.assertion ?? '',
+        assertion_trigger: e.assertionTrigger ?? '',
+        concept_system: e.concept?.system ?? '',
+        concept_code: e.concept?.code ?? '',
+        concept_display: e.concept?.display ?? '',
+        concept_match: e.concept?.match ?? '',
+        concept_score: e.concept?.score ?? '',
+      })), 'ner-entities.csv');
+    }
+    logAuditEvent({
+      projectId: project.id,
+      action: 'export',
+      inputText: sentText,
+      parameters: { tab: 'ner', format, model: result.model, entityCount: displayEntities.length },
+    });
+  };
+
   return (
     <div className="space-y-6">
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
@@ -162,9 +291,9 @@ export default function NERAnalysis() {
               onChange={(e) => setModel(e.target.value)}
               className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             >
-              <option value="BioBERT">BioBERT</option>
-              <option value="ClinicalBERT">ClinicalBERT</option>
-              <option value="PubMedBERT">PubMedBERT</option>
+              {MODEL_OPTIONS.ner.map((option) => (
+                <option key={option.name} value={option.name}>{option.name}</option>
+              ))}
             </select>
           </div>
 
@@ -181,6 +310,10 @@ export default function NERAnalysis() {
               onChange={(e) => setConfidenceThreshold(parseFloat(e.target.value))}
               className="w-full"
             />
+            <label className="mt-2 flex items-center space-x-2 text-sm text-gray-700">
+              <input type="checkbox" checked={expandAbbreviations} onChange={(e) => setExpandAbbreviations(e.target.checked)} />
+              <span>Expand abbreviations (IDC, LVI, s/p...) before tagging</span>
+            </label>
           </div>
 
           <div className="flex items-end">
@@ -233,7 +366,7 @@ export default function NERAnalysis() {
             </div>
             <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
               <div className="text-sm text-gray-600 mb-1">Entity Types</div>
-              <div className="text-3xl font-bold text-purple-600">{result.entityTypes.length}</div>
+              <div className="text-3xl font-bold text-purple-600">{Object.keys(entityGroups).length}</div>
             </div>
             <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
               <div className="text-sm text-gray-600 mb-1">Completeness</div>
@@ -243,6 +376,198 @@ export default function NERAnalysis() {
             </div>
           </div>
 
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex items-center space-x-2 text-sm">
+              <span className="text-gray-600">Labels:</span>
+              <button
+                onClick={() => setLabelView('clinical')}
+                className={`px-3 py-1 rounded-lg border transition-colors ${labelView === 'clinical' ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'}`}
+              >
+                Clinical schema ({projection?.mapping.targetSchema})
+              </button>
+              <button
+                onClick={() => setLabelView('model')}
+                className={`px-3 py-1 rounded-lg border transition-colors ${labelView === 'model' ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'}`}
+              >
+                Model tags
+              </button>
+            </div>
+            {labelView === 'clinical' && unmappedLabels.length > 0 && (
+              <p className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded px-3 py-1">
+                Unmapped model labels (shown as-is): {unmappedLabels.map(([label, count]) => `${formatEntityType(label)} (${count})`).join(', ')}
+              </p>
+            )}
+          </div>
+
+          {result.sections && result.sections.length > 1 && (
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+              <span className="text-gray-600">Sections:</span>
+              {result.sections.map((section, idx) => (
+                <span key={idx} className="px-2 py-1 rounded bg-white border border-gray-200 text-gray-700" title={section.title ?? undefined}>
+                  {SECTION_LABELS[section.type]}
+                  <span className="ml-1 text-gray-400">
+                    ({displayEntities.filter(e => e.start >= section.start && e.start < section.end).length})
+                  </span>
+                </span>
+              ))}
+            </div>
+          )}
+
+          {result.windowCount !== undefined && result.windowCount > 1 && (
+            <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg flex items-center space-x-2">
+              <Info className="w-5 h-5 text-blue-600 flex-shrink-0" />
+              <p className="text-sm text-blue-800">
+                Long document: analyzed in {result.windowCount} overlapping windows to stay within the model's 512-token limit. Entities were merged across windows.
+              </p>
+            </div>
+          )}
+
+          {result.cache?.hit && (
+            <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg flex items-center space-x-2">
+              <Info className="w-5 h-5 text-gray-500 flex-shrink-0" />
+              <p className="text-sm text-gray-700">
+                Cached result from {new Date(result.cache.storedAt).toLocaleString()}: this de-identified text was already analyzed with the same model and settings, so the model was not called again.
+              </p>
+            </div>
+          )}
+
+          {result.staging && (result.staging.tnm.length > 0 || result.staging.stages.length > 0 || result.staging.grade) && (
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+                <Layers className="w-5 h-5 mr-2 text-indigo-500" />
+                Structured Staging
+              </h3>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {result.staging.tnm.map((tnm, idx) => (
+                  <div key={`tnm-${idx}`} className="p-3 bg-gray-50 rounded-lg border border-gray-200">
+                    <div className="text-xs text-gray-500 mb-1">TNM{tnm.prefix ? ` (${STAGE_PREFIX_LABELS[tnm.prefix]})` : ''}</div>
+                    <div className="font-semibold text-gray-900">
+                      T{tnm.t} · N{tnm.n ?? '?'} · M{tnm.m ?? '?'}
+                    </div>
+                    <div className="text-xs text-gray-500 mt-1">Implies Stage {tnm.derivedStage ?? 'n/a'}</div>
+                  </div>
+                ))}
+                {result.staging.stages.map((stage, idx) => (
+                  <div key={`stage-${idx}`} className="p-3 bg-gray-50 rounded-lg border border-gray-200">
+                    <div className="text-xs text-gray-500 mb-1">Stated stage</div>
+                    <div className="font-semibold text-gray-900">Stage {stage.group}</div>
+                  </div>
+                ))}
+                {result.staging.grade && (
+                  <div className="p-3 bg-gray-50 rounded-lg border border-gray-200">
+                    <div className="text-xs text-gray-500 mb-1">Histologic grade</div>
+                    <div className="font-semibold text-gray-900">Grade {result.staging.grade.grade}</div>
+                    <div className="text-xs text-gray-500 mt-1">"{result.staging.grade.text}"</div>
+                  </div>
+                )}
+              </div>
+              {result.staging.issues.map((issue, idx) => (
+                <div
+                  key={idx}
+                  className={`mt-3 p-3 rounded-lg border flex items-center space-x-2 text-sm ${issue.severity === 'error' ? 'bg-red-50 border-red-200 text-red-800' : 'bg-amber-50 border-amber-200 text-amber-800'}`}
+                >
+                  <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                  <span>{issue.message}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {result.biomarkers && (result.biomarkers.er || result.biomarkers.pr || result.biomarkers.her2 || result.biomarkers.ki67 || result.biomarkers.tripleNegative) && (
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+                  <FlaskConical className="w-5 h-5 mr-2 text-teal-500" />
+                  Receptor & Biomarker Panel
+                </h3>
+                {result.biomarkers.tripleNegative !== null && (
+                  <span className={`px-3 py-1 rounded-full text-xs font-semibold border ${result.biomarkers.tripleNegative ? 'bg-red-50 text-red-700 border-red-200' : 'bg-gray-50 text-gray-600 border-gray-200'}`}>
+                    {result.biomarkers.tripleNegative ? 'Triple-negative' : 'Not triple-negative'}
+                    {result.biomarkers.tripleNegativeSource === 'derived' && ' (from ER/PR/HER2)'}
+                  </span>
+                )}
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {([['ER', result.biomarkers.er], ['PR', result.biomarkers.pr], ['HER2', result.biomarkers.her2]] as const).map(([name, receptor]) => (
+                  <div key={name} className="p-3 bg-gray-50 rounded-lg border border-gray-200">
+                    <div className="text-xs text-gray-500 mb-1">{name}</div>
+                    {receptor ? (
+                      <>
+                        <div className={`font-semibold capitalize ${RECEPTOR_STATUS_COLORS[receptor.status]}`}>{receptor.status}</div>
+                        {describeReceptor(receptor) && <div className="text-xs text-gray-600 mt-1">{describeReceptor(receptor)}</div>}
+                        <div className="text-xs text-gray-400 mt-1 truncate" title={receptor.evidence.map(e => e.text).join(' | ')}>
+                          "{receptor.evidence[0].text}"
+                        </div>
+                        {receptor.conflicting && (
+                          <div className="text-xs text-amber-700 mt-1 flex items-center">
+                            <AlertTriangle className="w-3 h-3 mr-1" />
+                            Conflicting mentions
+                          </div>
+                        )}
+                      </>
+                    ) : (
+                      <div className="text-sm text-gray-400">Not reported</div>
+                    )}
+                  </div>
+                ))}
+                <div className="p-3 bg-gray-50 rounded-lg border border-gray-200">
+                  <div className="text-xs text-gray-500 mb-1">Ki-67</div>
+                  {result.biomarkers.ki67 ? (
+                    <>
+                      <div className="font-semibold text-gray-900">{result.biomarkers.ki67.percent}%</div>
+                      <div className="text-xs text-gray-400 mt-1 truncate">"{result.biomarkers.ki67.evidence[0].text}"</div>
+                    </>
+                  ) : (
+                    <div className="text-sm text-gray-400">Not reported</div>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {result.medications && result.medications.length > 0 && (
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+                <Pill className="w-5 h-5 mr-2 text-pink-500" />
+                Medications
+              </h3>
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b border-gray-200">
+                      <th className="py-2 pr-4 font-medium">Drug</th>
+                      <th className="py-2 pr-4 font-medium">Dose</th>
+                      <th className="py-2 pr-4 font-medium">Route</th>
+                      <th className="py-2 pr-4 font-medium">Frequency</th>
+                      <th className="py-2 pr-4 font-medium">Duration</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.medications.map((med, idx) => (
+                      <tr key={idx} className="border-b border-gray-100 last:border-0">
+                        <td className="py-2 pr-4 font-medium text-gray-900">
+                          <span className={ASSERTION_STYLES[med.assertion ?? 'present']}>{med.drug}</span>
+                          {med.assertion && med.assertion !== 'present' && (
+                            <span className="ml-2 text-[10px] uppercase tracking-wide text-gray-500">{ASSERTION_LABELS[med.assertion]}</span>
+                          )}
+                        </td>
+                        {([med.dose, med.route, med.frequency, med.duration]).map((arg, col) => (
+                          <td
+                            key={col}
+                            className={`py-2 pr-4 ${arg ? 'text-gray-700' : 'text-gray-300'}`}
+                            title={arg ? (arg.source === 'ner' ? 'Linked model entity' : 'Found by pattern') : undefined}
+                          >
+                            {arg ? arg.text : '—'}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
             {/* Interactive Chart Section */}
             <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 lg:col-span-1">
@@ -317,15 +642,14 @@ export default function NERAnalysis() {
                 <h3 className="text-lg font-semibold text-gray-900">Highlighted Text</h3>
                 <div className="flex space-x-2">
                   <button
-                    onClick={() => exportAsJSON(result, 'ner-results.json')}
+                    onClick={() => handleExport('json')}
                     className="flex items-center space-x-2 px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition-colors"
                   >
                     <Download className="w-4 h-4" />
                     <span>JSON</span>
                   </button>
                   <button
-                    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                    onClick={() => exportAsCSV(result.entities as any, 'ner-entities.csv')}
+                    onClick={() => handleExport('csv')}
                     className="flex items-center space-x-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
                   >
                     <Download className="w-4 h-4" />
@@ -345,6 +669,18 @@ export default function NERAnalysis() {
                   dangerouslySetInnerHTML={{ __html: highlightedText() }}
                 />
               </div>
+
+              {Object.keys(assertionCounts).length > 0 && (
+                <div className="mt-3 flex flex-wrap items-center gap-3 text-xs text-gray-600">
+                  <span>Assertion:</span>
+                  {(Object.entries(assertionCounts) as [AssertionStatus, number][]).map(([assertion, count]) => (
+                    <span key={assertion} className={`px-2 py-0.5 rounded border border-gray-400 bg-white ${ASSERTION_STYLES[assertion]}`}>
+                      {ASSERTION_LABELS[assertion]} ({count})
+                    </span>
+                  ))}
+                  {assertionCounts.negated && <span>Negated findings are excluded from the insights.</span>}
+                </div>
+              )}
             </div>
           </div>
 
@@ -384,8 +720,23 @@ export default function NERAnalysis() {
                       <span
                         key={idx}
                         className={`px-3 py-1 rounded-full text-sm ${getEntityColor(type)} border`}
+                        title={[
+                          entity.section && entity.section !== 'body' ? `Section: ${SECTION_LABELS[entity.section]}` : '',
+                          entity.assertionTrigger ? `Trigger: "${entity.assertionTrigger}"` : '',
+                          entity.concept ? `${entity.concept.system} ${entity.concept.code}: ${entity.concept.display} (${entity.concept.match})` : '',
+                        ].filter(Boolean).join('\n') || undefined}
                       >
-                        {entity.text}
+                        <span className={ASSERTION_STYLES[entity.assertion ?? 'present']}>{entity.text}</span>
+                        {entity.assertion && entity.assertion !== 'present' && (
+                          <span className="ml-2 text-[10px] uppercase tracking-wide font-semibold">
+                            {ASSERTION_LABELS[entity.assertion]}
+                          </span>
+                        )}
+                        {entity.concept && (
+                          <span className="ml-2 text-[10px] font-mono opacity-75">
+                            {entity.concept.code}
+                          </span>
+                        )}
                         <span className="ml-2 text-xs opacity-75">
                           {(entity.confidence * 100).toFixed(0)}%
                         </span>
@@ -1,4 +1,6 @@
-import { X, Shield, Lock, Eye, Server } from 'lucide-react';
+import { X, Shield, Lock, Eye, Server, EyeOff } from 'lucide-react';
+import { useDeidentification } from '../context/DeidentificationContext';
+import { DEID_MODE_LABELS, DeidMode, PHI_LABELS } from '../lib/deidentify';
 
 interface PrivacyModalProps {
     isOpen: boolean;
@@ -6,6 +8,8 @@ interface PrivacyModalProps {
 }
 
 export default function PrivacyModal({ isOpen, onClose }: PrivacyModalProps) {
+    const { mode, setMode, mappingCount, clearMappings } = useDeidentification();
+
     if (!isOpen) return null;
 
     return (
@@ -48,7 +52,7 @@ export default function PrivacyModal({ isOpen, onClose }: PrivacyModalProps) {
                                     <Eye className="w-5 h-5 text-teal-600 mr-2" />
                                     <h4 className="font-semibold text-gray-900">No Persistent Storage</h4>
                                 </div>
-                                <p className="text-sm">Uploaded files are processed in-memory and are not permanently stored on our servers after analysis is complete.</p>
+                                <p className="text-sm">Uploaded files are processed in-memory. Only de-identified text and its analysis results are saved to your history.</p>
                             </div>
 
                             <div className="p-4 rounded-xl bg-gray-50 border border-gray-100">
@@ -60,6 +64,32 @@ export default function PrivacyModal({ isOpen, onClose }: PrivacyModalProps) {
                             </div>
                         </div>
 
+                        <div className="p-4 rounded-xl bg-teal-50 border border-teal-100">
+                            <div className="flex items-center mb-3">
+                                <EyeOff className="w-5 h-5 text-teal-600 mr-2" />
+                                <h4 className="font-semibold text-gray-900">PHI De-identification</h4>
+                            </div>
+                            <p className="text-sm mb-3">
+                                Before any text leaves your browser, {Object.values(PHI_LABELS).join(', ').toLowerCase()} are detected and replaced. Only the scrubbed text is sent for analysis and saved to history.
+                            </p>
+                            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 mb-3">
+                                {(Object.keys(DEID_MODE_LABELS) as DeidMode[]).map((option) => (
+                                    <label
+                                        key={option}
+                                        className={`p-3 rounded-lg border cursor-pointer text-sm ${mode === option ? 'border-teal-500 bg-white shadow-sm' : 'border-teal-100 hover:bg-white/60'}`}
+                                    >
+                                        <input type="radio" className="mr-2" checked={mode === option} onChange={() => setMode(option)} />
+                                        <span className="font-medium text-gray-900">{DEID_MODE_LABELS[option].label}</span>
+                                        <span className="block text-xs text-gray-500 mt-1 font-mono">{DEID_MODE_LABELS[option].example}</span>
+                                    </label>
+                                ))}
+                            </div>
+                            <div className="flex items-center justify-between text-xs text-gray-500">
+                                <span>The mapping back to the original text is kept only in this tab until you sign out ({mappingCount} document{mappingCount === 1 ? '' : 's'}).</span>
+                                <button onClick={clearMappings} className="text-teal-700 hover:underline font-medium">Clear mapping</button>
+                            </div>
+                        </div>
+
                         <div className="bg-blue-50 p-4 rounded-lg border border-blue-100 text-sm text-blue-800">
                             <strong>Note:</strong> This is a demo application. Please ensure you have appropriate consent before uploading real PHI (Protected Health Information).
                         </div>
@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { FolderKanban, ChevronDown, Check, Plus, Users } from 'lucide-react';
+import { useProject } from '../context/ProjectContext';
+import { useNotification } from '../context/NotificationContext';
+import { ROLE_LABELS } from '../lib/supabase';
+import WorkspaceModal from './WorkspaceModal';
+
+export default function ProjectSwitcher() {
+    const { workspaces, projects, project, workspace, selectProject, createProject, createWorkspace } = useProject();
+    const { showNotification } = useNotification();
+    const [isOpen, setIsOpen] = useState(false);
+    const [isMembersOpen, setIsMembersOpen] = useState(false);
+    // Workspace id a new project is being named for, or 'workspace' for a new workspace
+    const [creating, setCreating] = useState<string | null>(null);
+    const [newName, setNewName] = useState('');
+
+    const close = () => {
+        setIsOpen(false);
+        setCreating(null);
+        setNewName('');
+    };
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const name = newName.trim();
+        if (!name || !creating) return;
+        try {
+            if (creating === 'workspace') {
+                await createWorkspace(name, 'General');
+                showNotification(`Workspace "${name}" created`, 'success');
+            } else {
+                await createProject(creating, name);
+                showNotification(`Project "${name}" created`, 'success');
+            }
+            close();
+        } catch (err) {
+            showNotification(err instanceof Error ? err.message : 'Could not create it', 'error');
+        }
+    };
+
+    const nameInput = (placeholder: string) => (
+        <form onSubmit={handleCreate} className="px-3 py-2 flex items-center space-x-2">
+            <input
+                autoFocus
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder={placeholder}
+                className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <button type="submit" className="text-xs font-medium text-blue-600 hover:underline">Create</button>
+        </form>
+    );
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => (isOpen ? close() : setIsOpen(true))}
+                className="flex items-center space-x-2 px-3 py-1.5 bg-gray-50 border border-gray-200 rounded-lg text-sm hover:bg-gray-100 transition-colors max-w-[16rem]"
+                title="Switch project"
+            >
+                <FolderKanban className="w-4 h-4 text-blue-600 shrink-0" />
+                <span className="truncate">
+                    <span className="text-gray-500">{workspace.name} /</span>{' '}
+                    <span className="font-medium text-gray-900">{project.name}</span>
+                </span>
+                <ChevronDown className="w-4 h-4 text-gray-400 shrink-0" />
+            </button>
+
+            {isOpen && (
+                <>
+                    <div className="fixed inset-0 z-40" onClick={close} />
+                    <div className="absolute right-0 mt-2 w-72 bg-white border border-gray-200 rounded-xl shadow-xl z-50 py-2 max-h-[70vh] overflow-y-auto">
+                        {workspaces.map((w) => (
+                            <div key={w.id} className="py-1">
+                                <div className="px-3 py-1 flex items-center justify-between">
+                                    <span className="text-xs font-semibold text-gray-500 uppercase tracking-wide truncate">{w.name}</span>
+                                    <span className="text-[10px] font-medium px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">{ROLE_LABELS[w.role]}</span>
+                                </div>
+                                {projects.filter((p) => p.workspace_id === w.id).map((p) => (
+                                    <button
+                                        key={p.id}
+                                        onClick={() => {
+                                            selectProject(p.id);
+                                            close();
+                                        }}
+                                        className="w-full flex items-center justify-between px-3 py-1.5 text-sm text-gray-700 hover:bg-blue-50"
+                                    >
+                                        <span className="truncate">{p.name}</span>
+                                        {p.id === project.id && <Check className="w-4 h-4 text-blue-600" />}
+                                    </button>
+                                ))}
+                                {w.role === 'owner' && (creating === w.id ? nameInput('Project name') : (
+                                    <button
+                                        onClick={() => setCreating(w.id)}
+                                        className="w-full flex items-center px-3 py-1.5 text-xs text-gray-500 hover:text-blue-600"
+                                    >
+                                        <Plus className="w-3 h-3 mr-1" /> New project
+                                    </button>
+                                ))}
+                            </div>
+                        ))}
+                        <div className="border-t border-gray-100 mt-1 pt-1">
+                            {creating === 'workspace' ? nameInput('Workspace name') : (
+                                <button
+                                    onClick={() => setCreating('workspace')}
+                                    className="w-full flex items-center px-3 py-2 text-sm text-gray-600 hover:bg-gray-50"
+                                >
+                                    <Plus className="w-4 h-4 mr-2" /> New workspace
+                                </button>
+                            )}
+                            <button
+                                onClick={() => {
+                                    close();
+                                    setIsMembersOpen(true);
+                                }}
+                                className="w-full flex items-center px-3 py-2 text-sm text-gray-600 hover:bg-gray-50"
+                            >
+                                <Users className="w-4 h-4 mr-2" /> Members of {workspace.name}
+                            </button>
+                        </div>
+                    </div>
+                </>
+            )}
+
+            <WorkspaceModal isOpen={isMembersOpen} onClose={() => setIsMembersOpen(false)} />
+        </div>
+    );
+}
@@ -1,21 +1,24 @@
 import { useState } from 'react';
 import { Play, Loader2, AlertCircle, MessageSquare, HelpCircle, Gauge } from 'lucide-react';
 import TextInput from './TextInput';
-import { performQA } from '../lib/api';
-import { supabase } from '../lib/supabase';
+import { performQA, MODEL_OPTIONS, QAResult, SECTION_LABELS, SectionType } from '../lib/api';
+import { applyReplacements, restoreAnswer } from '../lib/deidentify';
+import { useDeidentification } from '../context/DeidentificationContext';
+import { useProject } from '../context/ProjectContext';
+import { saveAnalysis } from '../lib/supabase';
 import { PieChart, Pie, Cell, ResponsiveContainer, Label } from 'recharts';
 
-interface QAResult {
-  question: string;
-  answer: string;
-  confidence: number;
-  context: string;
-  model: string;
-}
+// Sections a question can be restricted to
+const TARGET_SECTIONS: SectionType[] = ['history', 'specimen', 'gross', 'microscopic', 'findings', 'diagnosis', 'impression', 'biomarkers', 'medications', 'plan'];
+
 export default function QuestionAnswering() {
+  const { scrub } = useDeidentification();
+  const { project, canEdit } = useProject();
   const [inputText, setInputText] = useState('');
   const [question, setQuestion] = useState('');
-  const [model, setModel] = useState('ClinicalBERT');
+  const [model, setModel] = useState(MODEL_OPTIONS.qa[0].name);
+  const [section, setSection] = useState<SectionType | ''>('');
+  const [expandAbbreviations, setExpandAbbreviations] = useState(false);
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<QAResult | null>(null);
   const [error, setError] = useState('');
@@ -42,16 +45,21 @@ export default function QuestionAnswering() {
     setError('');
 
     try {
-      const data = await performQA(inputText, question, model) as QAResult;
-      setResult(data);
+      // Only de-identified text leaves the browser; the question gets the note's replacements
+      const deid = scrub(inputText);
+      const data = await performQA(deid.text, applyReplacements(question, deid), model, section || undefined, expandAbbreviations, deid.mode, project.id);
+      setResult({ ...restoreAnswer(data, deid, inputText), question });
 
-      await supabase.from('clinical_analyses').insert({
-        input_text: inputText,
-        model_used: model,
-        analysis_type: 'QA',
-        results: data,
-        confidence_score: data.confidence,
-      });
+      if (canEdit) {
+        await saveAnalysis({
+          projectId: project.id,
+          inputText: deid.text,
+          model: data.model,
+          analysisType: 'QA',
+          results: { ...data, deidentification: deid.mode },
+          confidenceScore: data.confidence,
+        }).catch(saveErr => console.error(saveErr));
+      }
 
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Question answering failed');
@@ -80,7 +88,7 @@ export default function QuestionAnswering() {
           Ask questions about clinical texts and get AI-powered answers
         </p>
 
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mb-6">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 mb-6">
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
               Model Selection
@@ -90,10 +98,30 @@ export default function QuestionAnswering() {
               onChange={(e) => setModel(e.target.value)}
               className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             >
-              <option value="BioBERT">BioBERT</option>
-              <option value="ClinicalBERT">ClinicalBERT</option>
-              <option value="PubMedBERT">PubMedBERT</option>
+              {MODEL_OPTIONS.qa.map((option) => (
+                <option key={option.name} value={option.name}>{option.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Search In
+            </label>
+            <select
+              value={section}
+              onChange={(e) => setSection(e.target.value as SectionType | '')}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">Whole note</option>
+              {TARGET_SECTIONS.map((type) => (
+                <option key={type} value={type}>{SECTION_LABELS[type]} section</option>
+              ))}
             </select>
+            <label className="mt-2 flex items-center space-x-2 text-sm text-gray-700">
+              <input type="checkbox" checked={expandAbbreviations} onChange={(e) => setExpandAbbreviations(e.target.checked)} />
+              <span>Expand abbreviations</span>
+            </label>
           </div>
 
           <div className="flex items-end">
@@ -204,6 +232,16 @@ export default function QuestionAnswering() {
               <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
                 <div className="text-sm text-gray-600 mb-1">Model Used</div>
                 <div className="text-2xl font-bold text-blue-600">{result.model}</div>
+                <div className="text-xs text-gray-500 font-mono mt-1">{result.modelId}</div>
+                {result.cache?.hit && (
+                  <div className="text-xs text-gray-500 mt-1">Cached · {new Date(result.cache.storedAt).toLocaleString()}</div>
+                )}
+              </div>
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <div className="text-sm text-gray-600 mb-1">Searched</div>
+                <div className="text-lg font-semibold text-gray-900">
+                  {result.section ? `${SECTION_LABELS[result.section]} section` : 'Whole note'}
+                </div>
               </div>
             </div>
           </div>
@@ -0,0 +1,99 @@
+import { useState } from 'react';
+import { Activity, LogIn, UserPlus, Loader2 } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { useNotification } from '../context/NotificationContext';
+
+type Mode = 'signIn' | 'signUp';
+
+export default function SignIn() {
+    const { signIn, signUp } = useAuth();
+    const { showNotification } = useNotification();
+    const [mode, setMode] = useState<Mode>('signIn');
+    const [email, setEmail] = useState('');
+    const [password, setPassword] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSubmitting(true);
+        try {
+            if (mode === 'signIn') {
+                await signIn(email.trim(), password);
+            } else if (await signUp(email.trim(), password)) {
+                showNotification('Check your inbox to confirm your email, then sign in.', 'info');
+                setMode('signIn');
+            }
+        } catch (error) {
+            showNotification(error instanceof Error ? error.message : 'Authentication failed', 'error');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="min-h-screen bg-gradient-to-br from-blue-50 via-teal-50 to-cyan-50 font-sans flex items-center justify-center p-4">
+            <div className="w-full max-w-md bg-white rounded-2xl shadow-xl border border-gray-100 overflow-hidden">
+                <div className="bg-gradient-to-r from-blue-600 to-teal-500 px-6 py-8 text-white">
+                    <div className="flex items-center space-x-3">
+                        <div className="w-10 h-10 bg-white/15 rounded-lg flex items-center justify-center">
+                            <Activity className="w-6 h-6 text-white" />
+                        </div>
+                        <div>
+                            <h1 className="text-xl font-bold tracking-tight">Clinical NLP System</h1>
+                            <p className="text-xs text-blue-50 font-medium">Breast Cancer Text Analysis Platform</p>
+                        </div>
+                    </div>
+                    <p className="mt-4 text-sm text-blue-50">
+                        {mode === 'signIn' ? 'Sign in to see your analyses and history.' : 'Create an account. Your analyses are shared only with members of your workspaces.'}
+                    </p>
+                </div>
+
+                <form onSubmit={handleSubmit} className="p-6 space-y-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Email</label>
+                        <input
+                            type="email"
+                            required
+                            autoComplete="email"
+                            value={email}
+                            onChange={(e) => setEmail(e.target.value)}
+                            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Password</label>
+                        <input
+                            type="password"
+                            required
+                            minLength={6}
+                            autoComplete={mode === 'signIn' ? 'current-password' : 'new-password'}
+                            value={password}
+                            onChange={(e) => setPassword(e.target.value)}
+                            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                    </div>
+                    <button
+                        type="submit"
+                        disabled={isSubmitting}
+                        className="w-full flex items-center justify-center space-x-2 px-4 py-3 bg-gradient-to-r from-blue-600 to-teal-500 text-white rounded-lg font-medium hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed transition-opacity"
+                    >
+                        {isSubmitting
+                            ? <Loader2 className="w-5 h-5 animate-spin" />
+                            : mode === 'signIn' ? <LogIn className="w-5 h-5" /> : <UserPlus className="w-5 h-5" />}
+                        <span>{mode === 'signIn' ? 'Sign in' : 'Create account'}</span>
+                    </button>
+                    <p className="text-center text-sm text-gray-500">
+                        {mode === 'signIn' ? 'No account yet? ' : 'Already registered? '}
+                        <button
+                            type="button"
+                            onClick={() => setMode(mode === 'signIn' ? 'signUp' : 'signIn')}
+                            className="text-blue-600 hover:underline font-medium"
+                        >
+                            {mode === 'signIn' ? 'Create one' : 'Sign in'}
+                        </button>
+                    </p>
+                </form>
+            </div>
+        </div>
+    );
+}
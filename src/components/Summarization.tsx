@@ -1,28 +1,29 @@
 import { useState } from 'react';
-import { Play, Download, Loader2, AlertCircle, FileText, BarChart2 } from 'lucide-react';
+import { Play, Download, Loader2, AlertCircle, AlertTriangle, FileText, BarChart2, Layers } from 'lucide-react';
 import TextInput from './TextInput';
-import { performSummarization } from '../lib/api';
-import { supabase } from '../lib/supabase';
+import { performSummarization, SummarizationResult, MODEL_OPTIONS, SECTION_LABELS } from '../lib/api';
+import { saveAnalysis, logAuditEvent } from '../lib/supabase';
 import { exportAsJSON } from '../lib/utils';
+import { reidentify } from '../lib/deidentify';
 import { useFileContext } from '../context/FileContext';
+import { useDeidentification } from '../context/DeidentificationContext';
+import { useProject } from '../context/ProjectContext';
 import { useNotification } from '../context/NotificationContext';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell } from 'recharts';
 
-interface SummarizationResult {
-  summary: string;
-  originalLength: number;
-  summaryLength: number;
-  originalWords: number;
-  summaryWords: number;
-  compressionRatio: string;
-}
 
 export default function Summarization() {
   const { currentText: inputText, setCurrentText: setInputText } = useFileContext();
   const { showNotification } = useNotification();
-  const [model, setModel] = useState('ClinicalBERT');
+  const { scrub } = useDeidentification();
+  const { project, canEdit } = useProject();
+  const [model, setModel] = useState(MODEL_OPTIONS.summarization[0].name);
+  const [bySection, setBySection] = useState(false);
+  const [expandAbbreviations, setExpandAbbreviations] = useState(false);
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<SummarizationResult | null>(null);
+  // What was sent for the current result; exports are logged with its hash
+  const [sentText, setSentText] = useState('');
   const [error, setError] = useState('');
 
   const handleSummarize = async () => {
@@ -38,16 +39,26 @@ export default function Summarization() {
 
     try {
       showNotification('Generating summary...', 'info');
-      const data = await performSummarization(inputText, model) as SummarizationResult;
-      setResult(data);
+      // Only de-identified text leaves the browser; original values are put back for display
+      const deid = scrub(inputText);
+      const data = await performSummarization(deid.text, model, bySection, expandAbbreviations, deid.mode, project.id);
+      setResult({
+        ...data,
+        summary: reidentify(data.summary, deid),
+        sections: data.sections?.map(s => ({ ...s, summary: reidentify(s.summary, deid) })),
+      });
+      setSentText(deid.text);
       showNotification('Summary generated successfully!', 'success');
 
-      await supabase.from('clinical_analyses').insert({
-        input_text: inputText,
-        model_used: model,
-        analysis_type: 'Summarization',
-        results: data,
-      });
+      if (canEdit) {
+        await saveAnalysis({
+          projectId: project.id,
+          inputText: deid.text,
+          model: data.model,
+          analysisType: 'Summarization',
+          results: { ...data, deidentification: deid.mode },
+        }).catch(saveErr => console.error(saveErr));
+      }
 
     } catch (err) {
       const msg = err instanceof Error ? err.message : 'Summarization failed';
@@ -58,6 +69,12 @@ export default function Summarization() {
     }
   };
 
+  const handleExport = () => {
+    if (!result) return;
+    exportAsJSON(result, 'summary-result.json');
+    logAuditEvent({ projectId: project.id, action: 'export', inputText: sentText, parameters: { tab: 'summarization', format: 'json', model: result.model } });
+  };
+
   const chartData = result ? [
     { name: 'Original', words: result.originalWords, color: '#3B82F6' },
     { name: 'Summary', words: result.summaryWords, color: '#10B981' }
@@ -81,10 +98,18 @@ export default function Summarization() {
               onChange={(e) => setModel(e.target.value)}
               className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent bg-white shadow-sm"
             >
-              <option value="BioBERT">BioBERT</option>
-              <option value="ClinicalBERT">ClinicalBERT</option>
-              <option value="PubMedBERT">PubMedBERT</option>
+              {MODEL_OPTIONS.summarization.map((option) => (
+                <option key={option.name} value={option.name}>{option.name}</option>
+              ))}
             </select>
+            <label className="mt-2 flex items-center space-x-2 text-sm text-gray-700">
+              <input type="checkbox" checked={bySection} onChange={(e) => setBySection(e.target.checked)} />
+              <span>Summarize section by section (History, Diagnosis, Plan...)</span>
+            </label>
+            <label className="mt-1 flex items-center space-x-2 text-sm text-gray-700">
+              <input type="checkbox" checked={expandAbbreviations} onChange={(e) => setExpandAbbreviations(e.target.checked)} />
+              <span>Expand abbreviations (IDC, LVI, s/p...) before summarizing</span>
+            </label>
           </div>
 
           <div className="flex items-end">
@@ -124,6 +149,34 @@ export default function Summarization() {
 
       {result && (
         <>
+          {result.coverage && result.coverage.ratio < 1 && (
+            <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg flex items-start space-x-2">
+              <AlertTriangle className="w-5 h-5 text-amber-600 flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-amber-800">
+                <span className="font-medium">Partial coverage:</span> only {(result.coverage.ratio * 100).toFixed(0)}% of the document
+                ({result.chunkCount} of {result.totalChunks} chunks) was summarized. Content after that point is not reflected in the summary.
+              </p>
+            </div>
+          )}
+
+          {result.strategy === 'map-reduce' && (
+            <div className="p-4 bg-teal-50 border border-teal-200 rounded-lg flex items-center space-x-2">
+              <Layers className="w-5 h-5 text-teal-600 flex-shrink-0" />
+              <p className="text-sm text-teal-800">
+                Long document: summarized in {result.chunkCount} chunks, then the chunk summaries were summarized again.
+              </p>
+            </div>
+          )}
+
+          {result.strategy === 'by-section' && (
+            <div className="p-4 bg-teal-50 border border-teal-200 rounded-lg flex items-center space-x-2">
+              <Layers className="w-5 h-5 text-teal-600 flex-shrink-0" />
+              <p className="text-sm text-teal-800">
+                Summarized section by section ({result.sections?.length} sections). Short sections are kept as written.
+              </p>
+            </div>
+          )}
+
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
             {/* Charts Section */}
             <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 md:col-span-1 flex flex-col justify-center">
@@ -168,7 +221,10 @@ export default function Summarization() {
               </div>
               <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 flex flex-col justify-center">
                 <div className="text-sm text-gray-600 mb-1">Model Used</div>
-                <div className="text-lg font-bold text-orange-600 truncate">{model}</div>
+                <div className="text-lg font-bold text-orange-600 truncate" title={result.modelId}>{result.model}</div>
+                {result.cache?.hit && (
+                  <div className="text-xs text-gray-500 mt-1">Cached · {new Date(result.cache.storedAt).toLocaleString()}</div>
+                )}
               </div>
               <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 flex flex-col justify-center">
                 <div className="text-sm text-gray-600 mb-1">Reduction</div>
@@ -186,16 +242,30 @@ export default function Summarization() {
                 <span>Summary</span>
               </h3>
               <button
-                onClick={() => exportAsJSON(result, 'summary-result.json')}
+                onClick={handleExport}
                 className="flex items-center space-x-2 px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition-colors"
               >
                 <Download className="w-4 h-4" />
                 <span>Export</span>
               </button>
             </div>
-            <div className="p-6 bg-gradient-to-br from-teal-50 to-cyan-50 rounded-lg border border-teal-200">
-              <p className="text-gray-800 leading-relaxed">{result.summary}</p>
-            </div>
+            {result.sections ? (
+              <div className="space-y-3">
+                {result.sections.map((section, idx) => (
+                  <div key={idx} className="p-4 bg-gradient-to-br from-teal-50 to-cyan-50 rounded-lg border border-teal-200">
+                    <div className="text-xs font-semibold text-teal-700 uppercase mb-1">
+                      {section.title ?? SECTION_LABELS[section.type]}
+                      {!section.summarized && <span className="ml-2 font-normal normal-case text-gray-500">(kept as written)</span>}
+                    </div>
+                    <p className="text-gray-800 leading-relaxed">{section.summary}</p>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="p-6 bg-gradient-to-br from-teal-50 to-cyan-50 rounded-lg border border-teal-200">
+                <p className="text-gray-800 leading-relaxed">{result.summary}</p>
+              </div>
+            )}
           </div>
 
           <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
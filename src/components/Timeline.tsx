@@ -0,0 +1,299 @@
+import { useState, useEffect, useCallback } from 'react';
+import { CalendarClock, RefreshCw, AlertCircle, FileText } from 'lucide-react';
+import { ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, ResponsiveContainer, TooltipContentProps } from 'recharts';
+import { supabase, ClinicalAnalysis, logAuditEvent } from '../lib/supabase';
+import { extractTimelineEvents, EventCategory, TimelineEvent } from '../lib/temporal';
+import { useDeidentification } from '../context/DeidentificationContext';
+import { useProject } from '../context/ProjectContext';
+
+interface TimelineDocument {
+  key: string;
+  text: string;
+  analysisCount: number;
+  // Earliest analysis of this text, used as the reference date by default
+  analyzedAt: string;
+}
+
+interface PlottedEvent extends TimelineEvent {
+  documentKey: string;
+  documentIndex: number;
+}
+
+const CATEGORY_ORDER: EventCategory[] = ['diagnosis', 'surgery', 'chemotherapy', 'radiation', 'hormonal', 'treatment', 'follow-up'];
+
+const CATEGORY_COLORS: Record<EventCategory, string> = {
+  diagnosis: '#EC4899',
+  surgery: '#8B5CF6',
+  chemotherapy: '#F59E0B',
+  radiation: '#EF4444',
+  hormonal: '#10B981',
+  treatment: '#6366F1',
+  'follow-up': '#3B82F6',
+};
+
+function formatCategory(category: EventCategory) {
+  return category.charAt(0).toUpperCase() + category.slice(1);
+}
+
+function formatDate(value: string, granularity: TimelineEvent['granularity']) {
+  const date = new Date(`${value}T00:00:00Z`);
+  const options: Intl.DateTimeFormatOptions = granularity === 'year'
+    ? { year: 'numeric', timeZone: 'UTC' }
+    : granularity === 'month'
+      ? { year: 'numeric', month: 'short', timeZone: 'UTC' }
+      : { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' };
+  return date.toLocaleDateString(undefined, options);
+}
+
+export default function Timeline() {
+  const [documents, setDocuments] = useState<TimelineDocument[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [referenceMode, setReferenceMode] = useState<'analysis' | 'custom'>('analysis');
+  const [customDate, setCustomDate] = useState(new Date().toISOString().slice(0, 10));
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const { restore } = useDeidentification();
+  const { project } = useProject();
+
+  const loadDocuments = useCallback(async () => {
+    setLoading(true);
+    setError('');
+
+    const { data: analyses, error: loadError } = await supabase
+      .from('clinical_analyses')
+      .select('id, document_id, input_text, created_at')
+      .eq('project_id', project.id)
+      .order('created_at', { ascending: false })
+      .limit(100);
+    if (loadError) {
+      setError(loadError.message);
+      setLoading(false);
+      return;
+    }
+
+    // The latest 100 analyses, replayed oldest first so documents keep their order.
+    // The same text analyzed several ways (NER, summary, QA) is one document
+    const byText = new Map<string, TimelineDocument>();
+    (analyses as Pick<ClinicalAnalysis, 'id' | 'document_id' | 'input_text' | 'created_at'>[] | null)?.slice().reverse().forEach(a => {
+      const key = a.document_id ?? a.input_text.trim();
+      const existing = byText.get(key);
+      if (existing) {
+        existing.analysisCount += 1;
+      } else {
+        byText.set(key, { key, text: a.input_text, analysisCount: 1, analyzedAt: a.created_at });
+      }
+    });
+
+    const docs = [...byText.values()];
+    setDocuments(docs);
+    logAuditEvent({ projectId: project.id, action: 'view_history', parameters: { view: 'timeline', count: analyses?.length ?? 0 } });
+    setSelected(new Set(docs.map(d => d.key)));
+    setLoading(false);
+  }, [project.id]);
+
+  useEffect(() => {
+    loadDocuments();
+  }, [loadDocuments]);
+
+  const toggleDocument = (key: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const events: PlottedEvent[] = documents.flatMap((doc, documentIndex) => {
+    if (!selected.has(doc.key)) return [];
+    const reference = referenceMode === 'custom' ? new Date(`${customDate}T00:00:00Z`) : new Date(doc.analyzedAt);
+    // Stored text is de-identified (surrogate dates are shifted); use the original when this tab has it
+    return extractTimelineEvents(restore(doc.text), reference).map(event => ({ ...event, documentKey: doc.key, documentIndex }));
+  });
+
+  const dated = events.filter(e => e.date).sort((a, b) => (a.date as string).localeCompare(b.date as string));
+  const undated = events.filter(e => !e.date);
+  const categories = CATEGORY_ORDER.filter(c => dated.some(e => e.category === c));
+
+  const chartData = (category: EventCategory) => dated
+    .filter(e => e.category === category)
+    .map(e => ({
+      time: new Date(`${e.date}T00:00:00Z`).getTime(),
+      row: categories.indexOf(category),
+      label: `${e.text} (doc ${e.documentIndex + 1})`,
+      date: formatDate(e.date as string, e.granularity),
+    }));
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-cyan-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">Patient Timeline</h2>
+            <p className="text-gray-600">Clinical events from analyzed documents, ordered by normalized date</p>
+          </div>
+          <button
+            onClick={loadDocuments}
+            className="flex items-center space-x-2 px-4 py-2 bg-cyan-50 text-cyan-700 rounded-lg hover:bg-cyan-100 transition-colors border border-cyan-200"
+          >
+            <RefreshCw className="w-4 h-4" />
+            <span>Refresh</span>
+          </button>
+        </div>
+
+        {error && (
+          <div className="flex items-center space-x-2 text-red-700 bg-red-50 border border-red-200 rounded-lg p-4 text-sm mb-6">
+            <AlertCircle className="w-5 h-5 flex-shrink-0" />
+            <span>Could not load the analyzed documents: {error}</span>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2">
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Document set ({selected.size} of {documents.length})</h3>
+            <div className="max-h-48 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+              {documents.length === 0 && !error && (
+                <p className="p-4 text-sm text-gray-500">No analyzed documents yet. Run an analysis first.</p>
+              )}
+              {documents.map((doc, idx) => (
+                <label key={doc.key} className="flex items-start space-x-3 p-3 hover:bg-gray-50 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={selected.has(doc.key)}
+                    onChange={() => toggleDocument(doc.key)}
+                    className="mt-1"
+                  />
+                  <div className="min-w-0">
+                    <p className="text-sm text-gray-800 truncate">
+                      <span className="font-medium">Doc {idx + 1}:</span> {restore(doc.text).slice(0, 120)}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {doc.analysisCount} analys{doc.analysisCount === 1 ? 'is' : 'es'} • first on {new Date(doc.analyzedAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Reference date for relative expressions</h3>
+            <div className="space-y-2 text-sm">
+              <label className="flex items-center space-x-2">
+                <input type="radio" checked={referenceMode === 'analysis'} onChange={() => setReferenceMode('analysis')} />
+                <span>Date each document was first analyzed</span>
+              </label>
+              <label className="flex items-center space-x-2">
+                <input type="radio" checked={referenceMode === 'custom'} onChange={() => setReferenceMode('custom')} />
+                <span>Fixed date</span>
+              </label>
+              <input
+                type="date"
+                value={customDate}
+                disabled={referenceMode !== 'custom'}
+                onChange={(e) => setCustomDate(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg disabled:bg-gray-50 disabled:text-gray-400"
+              />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <h3 className="text-lg font-semibold text-gray-800 mb-6 flex items-center">
+          <CalendarClock className="w-5 h-5 mr-2 text-cyan-500" />
+          Events Over Time
+        </h3>
+        {dated.length > 0 ? (
+          <div className="h-[320px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <ScatterChart margin={{ top: 10, right: 30, bottom: 10, left: 30 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                <XAxis
+                  type="number"
+                  dataKey="time"
+                  domain={['dataMin', 'dataMax']}
+                  tickFormatter={(t: number) => new Date(t).toLocaleDateString(undefined, { year: 'numeric', month: 'short', timeZone: 'UTC' })}
+                  tick={{ fontSize: 12 }}
+                />
+                <YAxis
+                  type="number"
+                  dataKey="row"
+                  domain={[-0.5, categories.length - 0.5]}
+                  ticks={categories.map((_, i) => i)}
+                  tickFormatter={(i: number) => (categories[i] ? formatCategory(categories[i]) : '')}
+                  tick={{ fontSize: 12 }}
+                  width={100}
+                />
+                <RechartsTooltip
+                  content={({ active, payload }: TooltipContentProps<number, string>) => active && payload?.length ? (
+                    <div className="bg-white p-3 border border-gray-200 shadow-lg rounded-lg">
+                      <p className="font-semibold text-gray-800">{payload[0].payload.date}</p>
+                      <p className="text-sm text-gray-600">{payload[0].payload.label}</p>
+                    </div>
+                  ) : null}
+                />
+                {categories.map(category => (
+                  <Scatter key={category} name={formatCategory(category)} data={chartData(category)} fill={CATEGORY_COLORS[category]} />
+                ))}
+              </ScatterChart>
+            </ResponsiveContainer>
+          </div>
+        ) : (
+          <div className="h-32 flex flex-col items-center justify-center text-gray-400 border-2 border-dashed border-gray-100 rounded-lg">
+            <AlertCircle className="w-8 h-8 mb-2 opacity-50" />
+            <span className="text-sm font-medium">No dated clinical events in the selected documents</span>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 lg:col-span-2">
+          <h3 className="text-lg font-semibold text-gray-800 mb-4">Chronology</h3>
+          <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+            {dated.map((event, idx) => (
+              <li key={idx} className="ml-4">
+                <div className="absolute w-3 h-3 rounded-full -left-1.5 mt-1.5 border border-white" style={{ backgroundColor: CATEGORY_COLORS[event.category] }} />
+                <time className="text-xs font-medium text-gray-500">{formatDate(event.date as string, event.granularity)}</time>
+                <p className="text-sm text-gray-900">
+                  <span className="font-semibold">{formatCategory(event.category)}</span>: {event.text}
+                  {event.implied && <span className="ml-2 text-xs text-gray-500">(implied)</span>}
+                </p>
+                <p className="text-xs text-gray-500">
+                  Doc {event.documentIndex + 1} • from "{event.temporal?.text}"
+                  {event.temporal?.kind === 'relative' && ' (relative)'}
+                </p>
+              </li>
+            ))}
+          </ol>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+          <h3 className="text-lg font-semibold text-gray-800 mb-4 flex items-center">
+            <FileText className="w-5 h-5 mr-2 text-gray-400" />
+            Undated Events ({undated.length})
+          </h3>
+          <div className="space-y-2">
+            {undated.map((event, idx) => (
+              <div key={idx} className="text-sm flex items-center justify-between">
+                <span>
+                  <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: CATEGORY_COLORS[event.category] }} />
+                  {event.text}
+                </span>
+                <span className="text-xs text-gray-500">Doc {event.documentIndex + 1}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+import { useCallback, useEffect, useState } from 'react';
+import { X, Users, UserPlus, Trash2, Loader2 } from 'lucide-react';
+import { supabase, ROLE_LABELS, WorkspaceMember, WorkspaceRole } from '../lib/supabase';
+import { useProject } from '../context/ProjectContext';
+import { useAuth } from '../context/AuthContext';
+import { useNotification } from '../context/NotificationContext';
+
+interface WorkspaceModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+const ROLE_DESCRIPTIONS: Record<WorkspaceRole, string> = {
+    owner: 'Manages members and projects',
+    annotator: 'Runs and saves analyses',
+    viewer: 'Read-only',
+};
+
+export default function WorkspaceModal({ isOpen, onClose }: WorkspaceModalProps) {
+    const { workspace, reload } = useProject();
+    const { user } = useAuth();
+    const { showNotification } = useNotification();
+    const [members, setMembers] = useState<WorkspaceMember[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [email, setEmail] = useState('');
+    const [role, setRole] = useState<WorkspaceRole>('annotator');
+    const isOwner = workspace.role === 'owner';
+
+    const loadMembers = useCallback(async () => {
+        setLoading(true);
+        const { data, error } = await supabase.rpc('list_workspace_members', { _workspace_id: workspace.id });
+        if (error) {
+            showNotification(error.message, 'error');
+        } else {
+            setMembers(data || []);
+        }
+        setLoading(false);
+    }, [workspace.id, showNotification]);
+
+    useEffect(() => {
+        if (isOpen) {
+            loadMembers();
+        }
+    }, [isOpen, loadMembers]);
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const { error } = await supabase.rpc('add_workspace_member', { _workspace_id: workspace.id, _email: email, _role: role });
+        if (error) {
+            showNotification(error.message, 'error');
+            return;
+        }
+        showNotification(`${email} added as ${ROLE_LABELS[role].toLowerCase()}`, 'success');
+        setEmail('');
+        loadMembers();
+    };
+
+    // A null role removes the member
+    const handleChange = async (member: WorkspaceMember, next: WorkspaceRole | null) => {
+        const { error } = await supabase.rpc('set_workspace_member_role', {
+            _workspace_id: workspace.id,
+            _user_id: member.user_id,
+            _role: next,
+        });
+        if (error) {
+            showNotification(error.message, 'error');
+            return;
+        }
+        // Changing your own role changes what you may do in the workspace
+        if (member.user_id === user?.id) {
+            await reload();
+        }
+        loadMembers();
+    };
+
+    if (!isOpen) return null;
+
+    return (
+        <div className="fixed inset-0 z-[80] overflow-y-auto">
+            <div className="fixed inset-0 bg-black/30 backdrop-blur-sm transition-opacity" onClick={onClose} />
+
+            <div className="flex min-h-full items-center justify-center p-4">
+                <div className="relative transform overflow-hidden rounded-2xl bg-white text-left shadow-2xl transition-all w-full max-w-xl animate-in fade-in zoom-in-95 duration-200">
+                    <div className="bg-gradient-to-r from-blue-600 to-teal-500 px-6 py-6 text-white">
+                        <div className="flex items-center">
+                            <Users className="w-7 h-7 mr-3 text-blue-100" />
+                            <div>
+                                <h3 className="text-xl font-bold">{workspace.name}</h3>
+                                <p className="text-sm text-blue-50">Members see every project of the workspace</p>
+                            </div>
+                        </div>
+                        <button
+                            onClick={onClose}
+                            className="absolute top-4 right-4 text-white/70 hover:text-white p-1 rounded-full hover:bg-white/10 transition-colors"
+                        >
+                            <X className="w-6 h-6" />
+                        </button>
+                    </div>
+
+                    <div className="p-6 space-y-4">
+                        {loading ? (
+                            <div className="flex justify-center py-6">
+                                <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+                            </div>
+                        ) : (
+                            <ul className="divide-y divide-gray-100 border border-gray-100 rounded-lg">
+                                {members.map((member) => (
+                                    <li key={member.user_id} className="flex items-center justify-between px-4 py-3">
+                                        <span className="text-sm text-gray-900 truncate">
+                                            {member.email}
+                                            {member.user_id === user?.id && <span className="text-gray-400"> (you)</span>}
+                                        </span>
+                                        {isOwner ? (
+                                            <div className="flex items-center space-x-2">
+                                                <select
+                                                    value={member.role}
+                                                    onChange={(e) => handleChange(member, e.target.value as WorkspaceRole)}
+                                                    className="text-sm border border-gray-300 rounded-lg px-2 py-1"
+                                                >
+                                                    {(Object.keys(ROLE_LABELS) as WorkspaceRole[]).map((r) => (
+                                                        <option key={r} value={r}>{ROLE_LABELS[r]}</option>
+                                                    ))}
+                                                </select>
+                                                <button
+                                                    onClick={() => handleChange(member, null)}
+                                                    className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                                                    aria-label={`Remove ${member.email}`}
+                                                >
+                                                    <Trash2 className="w-4 h-4" />
+                                                </button>
+                                            </div>
+                                        ) : (
+                                            <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">{ROLE_LABELS[member.role]}</span>
+                                        )}
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+
+                        {isOwner && (
+                            <form onSubmit={handleAdd} className="space-y-2">
+                                <label className="block text-sm font-medium text-gray-700">Add a registered user</label>
+                                <div className="flex space-x-2">
+                                    <input
+                                        type="email"
+                                        required
+                                        value={email}
+                                        onChange={(e) => setEmail(e.target.value)}
+                                        placeholder="colleague@hospital.org"
+                                        className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                    />
+                                    <select
+                                        value={role}
+                                        onChange={(e) => setRole(e.target.value as WorkspaceRole)}
+                                        className="text-sm border border-gray-300 rounded-lg px-2"
+                                    >
+                                        {(Object.keys(ROLE_LABELS) as WorkspaceRole[]).map((r) => (
+                                            <option key={r} value={r}>{ROLE_LABELS[r]}</option>
+                                        ))}
+                                    </select>
+                                    <button
+                                        type="submit"
+                                        className="flex items-center space-x-1 px-3 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors"
+                                    >
+                                        <UserPlus className="w-4 h-4" />
+                                        <span>Add</span>
+                                    </button>
+                                </div>
+                                <p className="text-xs text-gray-500">
+                                    {(Object.keys(ROLE_DESCRIPTIONS) as WorkspaceRole[]).map((r) => `${ROLE_LABELS[r]}: ${ROLE_DESCRIPTIONS[r]}`).join(' · ')}
+                                </p>
+                            </form>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
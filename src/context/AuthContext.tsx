@@ -0,0 +1,66 @@
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import type { Session, User } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { clearStoredMappings } from '../lib/deidentify';
+
+interface AuthContextType {
+    session: Session | null;
+    user: User | null;
+    // False until the stored session (if any) has been restored
+    ready: boolean;
+    signIn: (email: string, password: string) => Promise<void>;
+    // Resolves to true when the project requires email confirmation before the first sign-in
+    signUp: (email: string, password: string) => Promise<boolean>;
+    signOut: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+    const [session, setSession] = useState<Session | null>(null);
+    const [ready, setReady] = useState(false);
+
+    useEffect(() => {
+        supabase.auth.getSession().then(({ data }) => {
+            setSession(data.session);
+            setReady(true);
+        });
+        // Token refreshes and sign-outs in other tabs land here too
+        const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, next) => {
+            // However the session ended, don't leave the original texts behind for the next user
+            if (!next) clearStoredMappings();
+            setSession(next);
+        });
+        return () => subscription.unsubscribe();
+    }, []);
+
+    const signIn = useCallback(async (email: string, password: string) => {
+        const { error } = await supabase.auth.signInWithPassword({ email, password });
+        if (error) throw error;
+    }, []);
+
+    const signUp = useCallback(async (email: string, password: string) => {
+        const { data, error } = await supabase.auth.signUp({ email, password });
+        if (error) throw error;
+        return data.session === null;
+    }, []);
+
+    const signOut = useCallback(async () => {
+        const { error } = await supabase.auth.signOut();
+        if (error) throw error;
+    }, []);
+
+    return (
+        <AuthContext.Provider value={{ session, user: session?.user ?? null, ready, signIn, signUp, signOut }}>
+            {children}
+        </AuthContext.Provider>
+    );
+}
+
+export function useAuth() {
+    const context = useContext(AuthContext);
+    if (context === undefined) {
+        throw new Error('useAuth must be used within an AuthProvider');
+    }
+    return context;
+}
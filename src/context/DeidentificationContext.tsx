@@ -0,0 +1,74 @@
+import React, { createContext, useContext, useState, useCallback } from 'react';
+import { deidentify, DeidMode, DeidentifiedText, StoredMapping, loadMappings, storeMappings, clearStoredMappings } from '../lib/deidentify';
+
+interface DeidentificationContextType {
+    mode: DeidMode;
+    setMode: (mode: DeidMode) => void;
+    // Scrub text before it is sent to the edge function or stored
+    scrub: (text: string) => DeidentifiedText;
+    // Original for text scrubbed in this tab (history, timeline), otherwise the text as stored
+    restore: (scrubbed: string) => string;
+    mappingCount: number;
+    clearMappings: () => void;
+}
+
+const MODE_KEY = 'deidentificationMode';
+const DATE_SHIFT_KEY = 'deidentificationDateShift';
+// Oldest mappings are dropped beyond this
+const MAX_MAPPINGS = 100;
+
+// One shift per browser, so surrogate dates keep their intervals across documents
+function dateShiftDays() {
+    const stored = localStorage.getItem(DATE_SHIFT_KEY);
+    if (stored) return Number(stored);
+    const shift = -(30 + Math.floor(Math.random() * 335));
+    localStorage.setItem(DATE_SHIFT_KEY, String(shift));
+    return shift;
+}
+
+const DeidentificationContext = createContext<DeidentificationContextType | undefined>(undefined);
+
+export function DeidentificationProvider({ children }: { children: React.ReactNode }) {
+    const [mode, setModeState] = useState<DeidMode>(() => (localStorage.getItem(MODE_KEY) as DeidMode) || 'surrogate');
+    const [mappings, setMappings] = useState<StoredMapping[]>(loadMappings);
+
+    const setMode = useCallback((next: DeidMode) => {
+        localStorage.setItem(MODE_KEY, next);
+        setModeState(next);
+    }, []);
+
+    const scrub = useCallback((text: string) => {
+        const result = deidentify(text, mode, dateShiftDays());
+        if (result.replacements.length > 0) {
+            setMappings((prev) => {
+                const next = [...prev.filter((m) => m.scrubbed !== result.text), { scrubbed: result.text, original: text }].slice(-MAX_MAPPINGS);
+                storeMappings(next);
+                return next;
+            });
+        }
+        return result;
+    }, [mode]);
+
+    const restore = useCallback((scrubbed: string) => {
+        return mappings.find((m) => m.scrubbed === scrubbed)?.original ?? scrubbed;
+    }, [mappings]);
+
+    const clearMappings = useCallback(() => {
+        clearStoredMappings();
+        setMappings([]);
+    }, []);
+
+    return (
+        <DeidentificationContext.Provider value={{ mode, setMode, scrub, restore, mappingCount: mappings.length, clearMappings }}>
+            {children}
+        </DeidentificationContext.Provider>
+    );
+}
+
+export function useDeidentification() {
+    const context = useContext(DeidentificationContext);
+    if (context === undefined) {
+        throw new Error('useDeidentification must be used within a DeidentificationProvider');
+    }
+    return context;
+}
@@ -0,0 +1,149 @@
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { Loader2, AlertCircle } from 'lucide-react';
+import { supabase, Project, Workspace, WorkspaceRole } from '../lib/supabase';
+import { useAuth } from './AuthContext';
+
+export interface WorkspaceWithRole extends Workspace {
+    role: WorkspaceRole;
+}
+
+interface ProjectContextType {
+    workspaces: WorkspaceWithRole[];
+    projects: Project[];
+    // The project analyses, batches and datasets are read from and saved to
+    project: Project;
+    workspace: WorkspaceWithRole;
+    role: WorkspaceRole;
+    // Owners and annotators store results; viewers only read
+    canEdit: boolean;
+    selectProject: (projectId: string) => void;
+    createProject: (workspaceId: string, name: string) => Promise<Project>;
+    createWorkspace: (name: string, projectName: string) => Promise<void>;
+    reload: () => Promise<void>;
+}
+
+const PROJECT_KEY = 'currentProjectId';
+
+const ProjectContext = createContext<ProjectContextType | undefined>(undefined);
+
+export function ProjectProvider({ children }: { children: React.ReactNode }) {
+    const { user } = useAuth();
+    const [workspaces, setWorkspaces] = useState<WorkspaceWithRole[]>([]);
+    const [projects, setProjects] = useState<Project[]>([]);
+    const [projectId, setProjectId] = useState<string | null>(() => localStorage.getItem(PROJECT_KEY));
+    const [error, setError] = useState('');
+
+    const selectProject = useCallback((id: string) => {
+        localStorage.setItem(PROJECT_KEY, id);
+        setProjectId(id);
+    }, []);
+
+    const reload = useCallback(async () => {
+        if (!user) return;
+        setError('');
+        try {
+            const loadMemberships = () => supabase
+                .from('workspace_members')
+                .select('role, workspaces(id, name, created_by, created_at)')
+                .eq('user_id', user.id);
+            let { data: memberships, error: membershipError } = await loadMemberships();
+            if (membershipError) throw membershipError;
+
+            // First sign-in: every user starts with a workspace of their own. The server
+            // creates it once however many loads race here
+            if (!memberships || memberships.length === 0) {
+                const { data: newProjectId, error: createError } = await supabase.rpc('ensure_default_workspace');
+                if (createError) throw createError;
+                if (newProjectId) selectProject(newProjectId as string);
+                ({ data: memberships, error: membershipError } = await loadMemberships());
+                if (membershipError) throw membershipError;
+            }
+
+            const { data: projectRows, error: projectError } = await supabase
+                .from('projects')
+                .select('*')
+                .order('created_at', { ascending: true });
+            if (projectError) throw projectError;
+            if (!projectRows || projectRows.length === 0) {
+                throw new Error('Your workspaces have no projects. Ask a workspace owner to create one.');
+            }
+
+            setWorkspaces(((memberships ?? []) as unknown as { role: WorkspaceRole; workspaces: Workspace }[])
+                .map(({ role, workspaces: workspace }) => ({ ...workspace, role }))
+                .sort((a, b) => a.name.localeCompare(b.name)));
+            setProjects(projectRows);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not load your projects');
+        }
+    }, [user, selectProject]);
+
+    useEffect(() => {
+        reload();
+    }, [reload]);
+
+    const createProject = useCallback(async (workspaceId: string, name: string) => {
+        const { data, error: insertError } = await supabase
+            .from('projects')
+            .insert({ workspace_id: workspaceId, name })
+            .select()
+            .single();
+        if (insertError) throw insertError;
+        setProjects((prev) => [...prev, data]);
+        selectProject(data.id);
+        return data as Project;
+    }, [selectProject]);
+
+    const createWorkspace = useCallback(async (name: string, projectName: string) => {
+        const { data, error: createError } = await supabase.rpc('create_workspace', { _name: name, _project_name: projectName });
+        if (createError) throw createError;
+        selectProject(data as string);
+        await reload();
+    }, [reload, selectProject]);
+
+    // A stored id may point to a project the user has since lost access to
+    const project = projects.find((p) => p.id === projectId) ?? projects[0];
+    const workspace = project && workspaces.find((w) => w.id === project.workspace_id);
+
+    if (!project || !workspace) {
+        return (
+            <div className="min-h-screen flex flex-col items-center justify-center text-gray-500 space-y-3">
+                {error ? (
+                    <>
+                        <AlertCircle className="w-8 h-8 text-red-500" />
+                        <p className="text-sm">{error}</p>
+                        <button onClick={reload} className="text-sm text-blue-600 hover:underline font-medium">Try again</button>
+                    </>
+                ) : (
+                    <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+                )}
+            </div>
+        );
+    }
+
+    return (
+        <ProjectContext.Provider
+            value={{
+                workspaces,
+                projects,
+                project,
+                workspace,
+                role: workspace.role,
+                canEdit: workspace.role !== 'viewer',
+                selectProject,
+                createProject,
+                createWorkspace,
+                reload,
+            }}
+        >
+            {children}
+        </ProjectContext.Provider>
+    );
+}
+
+export function useProject() {
+    const context = useContext(ProjectContext);
+    if (context === undefined) {
+        throw new Error('useProject must be used within a ProjectProvider');
+    }
+    return context;
+}
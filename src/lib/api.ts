@@ -5,188 +5,213 @@
  * and database operations for clinical text analysis.
  */
 
+import { parseAnalysisResponse, RETRYABLE_ERRORS } from '../../supabase/functions/_shared/contract';
+import type {
+  AnalysisResults,
+  AnalysisType,
+  ComparisonResult,
+  DeidentificationMode,
+  ErrorCode,
+  NERResult,
+  QAResult,
+  RequestOf,
+  SectionType,
+  SummarizationResult,
+} from '../../supabase/functions/_shared/contract';
+import { supabase } from './supabase';
+
+// Request / result types are shared with the edge function
+export { CODE_SYSTEMS } from '../../supabase/functions/_shared/contract';
+export type {
+  Abbreviation,
+  CacheInfo,
+  CodeSystem,
+  ComparisonResult,
+  ConceptMatch,
+  ErrorCode,
+  MedicationRelation,
+  NEREntity,
+  NERResult,
+  QAResult,
+  RelationArgument,
+  SectionInfo,
+  SectionType,
+  SummarizationResult,
+} from '../../supabase/functions/_shared/contract';
+
 const EDGE_FUNCTION_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/clinical-nlp-analysis`;
 
-const headers = {
-  'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
-  'Content-Type': 'application/json',
+// The signed-in user's token identifies them to the function (its cache is per user);
+// the anon key is only used without a session
+async function authHeaders() {
+  const { data } = await supabase.auth.getSession();
+  return {
+    'Authorization': `Bearer ${data.session?.access_token ?? import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+    'Content-Type': 'application/json',
+  };
+}
+
+export type ModelTask = 'ner' | 'summarization' | 'qa';
+
+// Display names accepted by the edge function per task.
+// Keep in sync with the catalog in supabase/functions/clinical-nlp-analysis/models.ts
+export const MODEL_OPTIONS: Record<ModelTask, Array<{ name: string; description: string }>> = {
+  ner: [
+    { name: 'BioBERT', description: 'General' },
+    { name: 'ClinicalBERT', description: 'Notes' },
+    { name: 'PubMedBERT', description: 'Research' },
+  ],
+  summarization: [
+    { name: 'DistilBART', description: 'Fast' },
+    { name: 'BART-Large-CNN', description: 'Higher quality' },
+    { name: 'Medical-T5', description: 'Medical domain' },
+  ],
+  qa: [
+    { name: 'RoBERTa-SQuAD2', description: 'General' },
+    { name: 'BioBERT-SQuAD', description: 'Biomedical' },
+  ],
 };
 
-export interface NERResult {
-  entities: Array<{
-    text: string;
-    type: string;
-    confidence: number;
-    start: number;
-    end: number;
-  }>;
-  entityCount: number;
-  avgConfidence: number;
-  entityTypes: string[];
-}
+export const SECTION_LABELS: Record<SectionType, string> = {
+  history: 'History',
+  specimen: 'Specimen',
+  gross: 'Gross description',
+  microscopic: 'Microscopic',
+  findings: 'Findings',
+  diagnosis: 'Diagnosis',
+  impression: 'Impression',
+  biomarkers: 'Biomarkers',
+  medications: 'Medications',
+  plan: 'Plan',
+  other: 'Other',
+  preamble: 'Preamble',
+  body: 'Whole note',
+};
 
-export interface SummarizationResult {
-  summary: string;
-  originalLength: number;
-  summaryLength: number;
-  originalWords: number;
-  summaryWords: number;
-  compressionRatio: string;
+// Failure reported by the edge function, with the code from its error envelope
+export class AnalysisRequestError extends Error {
+  constructor(readonly code: ErrorCode, message: string, readonly retryAfter?: number) {
+    super(message);
+    this.name = 'AnalysisRequestError';
+  }
 }
 
-export interface QAResult {
-  question: string;
-  answer: string;
-  confidence: number;
-  context: string;
-  model: string;
-}
+// Retryable failures (model loading, timeouts, rate limits) are retried this many times in total
+const MAX_ATTEMPTS = 3;
+// Longest wait between attempts, even if the server suggests more
+const MAX_RETRY_DELAY_SECONDS = 30;
 
-export interface ComparisonResult {
-  models: Array<{
-    model: string;
-    entityCount: number;
-    avgConfidence: number;
-    entities: Array<{
-      text: string;
-      type: string;
-      confidence: number;
-      start: number;
-      end: number;
-    }>;
-    entityTypes: string[];
-  }>;
-  recommendation: {
-    model: string;
-    reason: string;
-  };
-}
+// Gateway errors that never reached the function come without an envelope
+const GATEWAY_ERRORS: Record<number, ErrorCode> = {
+  429: 'RATE_LIMITED',
+  504: 'UPSTREAM_TIMEOUT',
+};
 
-export async function performNER(
-  text: string,
-  model: string,
-  confidenceThreshold = 0.5
-): Promise<NERResult> {
+// POST one request and validate the response envelope against the shared contract
+async function requestAnalysis<T extends AnalysisType>(
+  type: T,
+  params: Omit<RequestOf<T>, 'type'>,
+  failureMessage: string
+): Promise<AnalysisResults[T]> {
+  let response: Response;
   try {
-    const response = await fetch(EDGE_FUNCTION_URL, {
+    response = await fetch(EDGE_FUNCTION_URL, {
       method: 'POST',
-      headers,
-      body: JSON.stringify({
-        type: 'ner',
-        text,
-        model,
-        confidenceThreshold,
-      }),
+      headers: await authHeaders(),
+      body: JSON.stringify({ type, ...params }),
     });
-
-    if (!response.ok) {
-      if (response.status === 404) {
-        throw new Error('Supabase function not found. Did you deploy it? See SETUP_INSTRUCTIONS.md');
-      }
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.error || 'NER analysis failed');
-    }
-
-    const result = await response.json();
-    return result.data;
   } catch (error) {
     if (error instanceof TypeError && error.message === 'Failed to fetch') {
       throw new Error('Unable to connect to Supabase. Please check your VITE_SUPABASE_URL in .env and ensure your Supabase project is active.');
     }
     throw error;
   }
-}
 
-export async function performSummarization(
-  text: string,
-  model: string
-): Promise<SummarizationResult> {
-  try {
-    const response = await fetch(EDGE_FUNCTION_URL, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify({
-        type: 'summarization',
-        text,
-        model,
-      }),
-    });
-
-    if (!response.ok) {
-      if (response.status === 404) {
-        throw new Error('Supabase function not found. Did you deploy it?');
-      }
-      throw new Error('Summarization failed');
-    }
+  if (response.status === 404) {
+    throw new Error('Supabase function not found. Did you deploy it? See SETUP_INSTRUCTIONS.md');
+  }
 
-    const result = await response.json();
-    return result.data;
-  } catch (error) {
-    if (error instanceof TypeError && error.message === 'Failed to fetch') {
-      throw new Error('Connection failed. Check your Supabase URL in .env');
+  const parsed = parseAnalysisResponse(type, await response.json().catch(() => null));
+  if (!parsed.ok) {
+    if (GATEWAY_ERRORS[response.status]) {
+      const retryAfter = Number(response.headers.get('Retry-After')) || undefined;
+      throw new AnalysisRequestError(GATEWAY_ERRORS[response.status], failureMessage, retryAfter);
     }
-    throw error;
+    // A failed request without an envelope (gateway error, crash) keeps the generic message
+    throw new Error(response.ok ? `Unexpected ${type} response from the analysis service: ${parsed.errors.slice(0, 3).join('; ')}` : failureMessage);
+  }
+  if (!parsed.value.success) {
+    const { code, message, retryAfter } = parsed.value.error;
+    throw new AnalysisRequestError(code, message || failureMessage, retryAfter);
   }
+  return parsed.value.data;
 }
 
-export async function performQA(
-  text: string,
-  question: string,
-  model: string
-): Promise<QAResult> {
-  try {
-    const response = await fetch(EDGE_FUNCTION_URL, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify({
-        type: 'qa',
-        text,
-        question,
-        model,
-      }),
-    });
+function wait(seconds: number) {
+  return new Promise(resolve => setTimeout(resolve, seconds * 1000));
+}
 
-    if (!response.ok) {
-      if (response.status === 404) {
-        throw new Error('Supabase function not found. Did you deploy it?');
+// Like requestAnalysis, retrying transient failures after the delay the server suggests
+async function callAnalysis<T extends AnalysisType>(
+  type: T,
+  params: Omit<RequestOf<T>, 'type'>,
+  failureMessage: string
+): Promise<AnalysisResults[T]> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await requestAnalysis(type, params, failureMessage);
+    } catch (error) {
+      if (!(error instanceof AnalysisRequestError) || !RETRYABLE_ERRORS.includes(error.code)) throw error;
+      const delay = Math.min(error.retryAfter ?? 2 ** attempt, MAX_RETRY_DELAY_SECONDS);
+      if (attempt >= MAX_ATTEMPTS) {
+        throw new AnalysisRequestError(
+          error.code,
+          `${error.message} Still failing after ${MAX_ATTEMPTS} attempts, please try again in ${delay} seconds.`,
+          error.retryAfter
+        );
       }
-      throw new Error('Question answering failed');
-    }
-
-    const result = await response.json();
-    return result.data;
-  } catch (error) {
-    if (error instanceof TypeError && error.message === 'Failed to fetch') {
-      throw new Error('Connection failed. Check your Supabase URL in .env');
+      await wait(delay);
     }
-    throw error;
   }
 }
 
-export async function performComparison(text: string): Promise<ComparisonResult> {
-  try {
-    const response = await fetch(EDGE_FUNCTION_URL, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify({
-        type: 'comparison',
-        text,
-      }),
-    });
+// `deidentification` is the mode the text was scrubbed with (src/lib/deidentify.ts);
+// the edge function only caches results for de-identified text. `projectId` is recorded
+// with the request in the audit log
+export function performNER(
+  text: string,
+  model: string,
+  confidenceThreshold = 0.5,
+  expandAbbreviations = false,
+  deidentification?: DeidentificationMode,
+  projectId?: string
+): Promise<NERResult> {
+  return callAnalysis('ner', { text, model, confidenceThreshold, expandAbbreviations, deidentification, projectId }, 'NER analysis failed');
+}
 
-    if (!response.ok) {
-      if (response.status === 404) {
-        throw new Error('Supabase function not found. Did you deploy it?');
-      }
-      throw new Error('Model comparison failed');
-    }
+export function performSummarization(
+  text: string,
+  model: string,
+  bySection = false,
+  expandAbbreviations = false,
+  deidentification?: DeidentificationMode,
+  projectId?: string
+): Promise<SummarizationResult> {
+  return callAnalysis('summarization', { text, model, bySection, expandAbbreviations, deidentification, projectId }, 'Summarization failed');
+}
 
-    const result = await response.json();
-    return result.data;
-  } catch (error) {
-    if (error instanceof TypeError && error.message === 'Failed to fetch') {
-      throw new Error('Connection failed. Check your Supabase URL in .env');
-    }
-    throw error;
-  }
+export function performQA(
+  text: string,
+  question: string,
+  model: string,
+  section?: SectionType,
+  expandAbbreviations = false,
+  deidentification?: DeidentificationMode,
+  projectId?: string
+): Promise<QAResult> {
+  return callAnalysis('qa', { text, question, model, section, expandAbbreviations, deidentification, projectId }, 'Question answering failed');
+}
+
+export function performComparison(text: string, deidentification?: DeidentificationMode, projectId?: string): Promise<ComparisonResult> {
+  return callAnalysis('comparison', { text, deidentification, projectId }, 'Model comparison failed');
 }
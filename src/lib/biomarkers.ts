@@ -0,0 +1,188 @@
+/**
+ * Structured receptor / biomarker panel extraction (ER, PR, HER2, Ki-67)
+ *
+ * NER tags "ER-positive" as a flat RECEPTOR_STATUS span. This module reads the
+ * actual values out of the text and normalizes them:
+ * - ER / PR: positive / negative, with the percentage of stained nuclei when given
+ *   (1-10% is reported as low positive, <1% as negative)
+ * - HER2: IHC score 0 / 1+ / 2+ / 3+ and ISH (FISH) amplification; ISH decides
+ *   over IHC, IHC 2+ without ISH stays equivocal, IHC 1+ and 2+/ISH- are HER2-low
+ * - Ki-67: proliferation index in percent
+ * Every value keeps the spans of text it was read from as evidence.
+ */
+
+export type ReceptorStatus = 'positive' | 'negative' | 'equivocal';
+
+export interface EvidenceSpan {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface ReceptorResult {
+  status: ReceptorStatus;
+  // Percentage of positive nuclei (ER / PR)
+  percent?: number;
+  // ER/PR 1-10% (ASCO/CAP "low positive")
+  lowPositive?: boolean;
+  // HER2 only
+  ihcScore?: '0' | '1+' | '2+' | '3+';
+  ish?: 'amplified' | 'not amplified';
+  her2Low?: boolean;
+  // Mentions disagree (e.g. pre- and post-treatment values); status is from the first
+  conflicting?: boolean;
+  evidence: EvidenceSpan[];
+}
+
+export interface BiomarkerPanel {
+  er: ReceptorResult | null;
+  pr: ReceptorResult | null;
+  her2: ReceptorResult | null;
+  ki67: { percent: number; evidence: EvidenceSpan[] } | null;
+  // null when ER, PR or HER2 is unknown and the text does not say so either
+  tripleNegative: boolean | null;
+  tripleNegativeSource: 'stated' | 'derived' | null;
+}
+
+type Receptor = 'er' | 'pr' | 'her2';
+
+const RECEPTOR_NAMES: Record<Receptor, string> = {
+  er: '(?:\\bER\\b|\\b[Oo]?[Ee]strogen [Rr]eceptors?)',
+  pr: '(?:\\bPR\\b|\\bPgR\\b|\\b[Pp]rogesterone [Rr]eceptors?)',
+  her2: '(?:\\bHER-?2(?:\\/neu)?\\b|\\bERBB2\\b|\\bc-erbB-2\\b)',
+};
+
+const STATUS_WORD = '(positive|negative|pos\\b|neg\\b|equivocal|\\+(?![\\d])|-(?=[\\s,.;)]|$))';
+
+interface Mention extends EvidenceSpan {
+  status?: ReceptorStatus;
+  percent?: number;
+  ihcScore?: ReceptorResult['ihcScore'];
+  ish?: ReceptorResult['ish'];
+}
+
+function normalizeStatus(word: string): ReceptorStatus {
+  const w = word.toLowerCase();
+  if (w.startsWith('pos') || w === '+') return 'positive';
+  if (w === 'equivocal') return 'equivocal';
+  return 'negative';
+}
+
+function span(match: RegExpMatchArray): EvidenceSpan {
+  const start = match.index ?? 0;
+  return { text: match[0], start, end: start + match[0].length };
+}
+
+function receptorMentions(text: string, receptor: Receptor): Mention[] {
+  const name = RECEPTOR_NAMES[receptor];
+  const mentions: Mention[] = [];
+
+  // "ER-positive", "ER: positive (95%)", "HER2 negative"
+  const direct = new RegExp(`${name}\\s*(?:status\\s*)?(?:is\\s+|was\\s+|[:(-]\\s*)?${STATUS_WORD}(?:[^.;\\d]{0,20}?(\\d{1,3})\\s*%)?`, 'g');
+  for (const match of text.matchAll(direct)) {
+    mentions.push({ ...span(match), status: normalizeStatus(match[1]), percent: match[2] ? Number(match[2]) : undefined });
+  }
+
+  // Shared status: "ER/PR positive", "ER and PR negative"
+  const others = (Object.keys(RECEPTOR_NAMES) as Receptor[]).filter(r => r !== receptor && r !== 'her2' && receptor !== 'her2');
+  for (const other of others) {
+    const shared = new RegExp(`(?:${name}\\s*(?:\\/|,|and)\\s*${RECEPTOR_NAMES[other]}|${RECEPTOR_NAMES[other]}\\s*(?:\\/|,|and)\\s*${name})[\\s:-]*(positive|negative)`, 'g');
+    for (const match of text.matchAll(shared)) {
+      mentions.push({ ...span(match), status: normalizeStatus(match[1]) });
+    }
+  }
+
+  // "ER 95%", "estrogen receptor 0%"
+  const percent = new RegExp(`${name}[^.;\\d]{0,25}?(\\d{1,3})\\s*%`, 'g');
+  for (const match of text.matchAll(percent)) {
+    if (!mentions.some(m => m.start === match.index)) mentions.push({ ...span(match), percent: Number(match[1]) });
+  }
+
+  if (receptor === 'her2') {
+    // "HER2 IHC 2+", "HER2 (3+)", "HER2 score 0"
+    const ihc = new RegExp(`${name}[^.;]{0,30}?(?:IHC|score|\\()\\s*:?\\s*([0-3])\\s*(\\+*)`, 'g');
+    for (const match of text.matchAll(ihc)) {
+      const score = match[1] === '0' ? '0' : `${match[1]}+`;
+      mentions.push({ ...span(match), ihcScore: score as Mention['ihcScore'] });
+    }
+    const ish = /\b(?:FISH|SISH|CISH|ISH)\b[^.;]{0,40}?\b(not amplified|non-amplified|negative|amplified|positive)\b|\bHER-?2(?:\/neu)?\s+(not amplified|non-amplified|amplified)\b/gi;
+    for (const match of text.matchAll(ish)) {
+      const result = (match[1] ?? match[2]).toLowerCase();
+      mentions.push({ ...span(match), ish: result === 'amplified' || result === 'positive' ? 'amplified' : 'not amplified' });
+    }
+  }
+
+  // "ER/PR negative" also matches "PR negative" on its own; keep the wider span
+  return mentions
+    .filter(m => !mentions.some(o => o !== m && o.start <= m.start && o.end >= m.end && (o.end - o.start) > (m.end - m.start)))
+    .sort((a, b) => a.start - b.start);
+}
+
+function percentStatus(percent: number): ReceptorStatus {
+  return percent >= 1 ? 'positive' : 'negative';
+}
+
+function resolveHormoneReceptor(mentions: Mention[]): ReceptorResult | null {
+  if (mentions.length === 0) return null;
+  const percent = mentions.find(m => m.percent !== undefined)?.percent;
+  const statuses = mentions.map(m => m.status ?? (m.percent !== undefined ? percentStatus(m.percent) : undefined)).filter(Boolean) as ReceptorStatus[];
+  const status = statuses[0];
+
+  return {
+    status,
+    percent,
+    lowPositive: percent !== undefined && percent >= 1 && percent <= 10 ? true : undefined,
+    conflicting: new Set(statuses).size > 1 || undefined,
+    evidence: mentions.map(({ text, start, end }) => ({ text, start, end })),
+  };
+}
+
+function resolveHer2(mentions: Mention[]): ReceptorResult | null {
+  if (mentions.length === 0) return null;
+  const ihcScore = mentions.find(m => m.ihcScore)?.ihcScore;
+  const ish = mentions.find(m => m.ish)?.ish;
+  const stated = mentions.map(m => m.status).filter(Boolean) as ReceptorStatus[];
+
+  let status: ReceptorStatus;
+  if (ish) status = ish === 'amplified' ? 'positive' : 'negative';
+  else if (ihcScore) status = ihcScore === '3+' ? 'positive' : ihcScore === '2+' ? 'equivocal' : 'negative';
+  else if (stated.length > 0) status = stated[0];
+  else return null;
+
+  const her2Low = status === 'negative' && (ihcScore === '1+' || (ihcScore === '2+' && ish === 'not amplified'));
+
+  return {
+    status,
+    ihcScore,
+    ish,
+    her2Low: her2Low || undefined,
+    conflicting: stated.some(s => s !== status) || undefined,
+    evidence: mentions.map(({ text, start, end }) => ({ text, start, end })),
+  };
+}
+
+export function extractBiomarkers(text: string): BiomarkerPanel {
+  const er = resolveHormoneReceptor(receptorMentions(text, 'er'));
+  const pr = resolveHormoneReceptor(receptorMentions(text, 'pr'));
+  const her2 = resolveHer2(receptorMentions(text, 'her2'));
+
+  const ki67Matches = [...text.matchAll(/\bKi[- ]?67\b[^.;\d]{0,30}?(\d{1,3}(?:\.\d+)?)\s*%/gi)];
+  const ki67 = ki67Matches.length > 0
+    ? { percent: Number(ki67Matches[0][1]), evidence: ki67Matches.map(m => span(m)) }
+    : null;
+
+  let tripleNegative: boolean | null = null;
+  let tripleNegativeSource: BiomarkerPanel['tripleNegativeSource'] = null;
+  if (/\btriple[- ]negative\b|\bTNBC\b/i.test(text)) {
+    tripleNegative = true;
+    tripleNegativeSource = 'stated';
+  } else if ([er, pr, her2].some(r => r?.status === 'positive')) {
+    tripleNegative = false;
+    tripleNegativeSource = 'derived';
+  } else if (er?.status === 'negative' && pr?.status === 'negative' && her2?.status === 'negative') {
+    tripleNegative = true;
+    tripleNegativeSource = 'derived';
+  }
+
+  return { er, pr, her2, ki67, tripleNegative, tripleNegativeSource };
+}
@@ -0,0 +1,356 @@
+/**
+ * PHI de-identification, run in the browser before text is sent or stored
+ *
+ * detectPhi() finds names, medical record numbers, dates, phone numbers,
+ * street addresses and ages over 89 (the HIPAA Safe Harbor limit). Names are
+ * found after honorifics and labelled fields ("Patient: Jane Doe"); once
+ * found, every later mention of the same name words is covered too, with a
+ * capitalized word directly next to it ("Jane Smith" after "Dr. Smith").
+ *
+ * deidentify() replaces them in one of three modes:
+ * - redact: typed placeholders, numbered per distinct value ("[NAME-1]")
+ * - mask: runs of "*" of the same length, so offsets do not move
+ * - surrogate: realistic fake values, consistent within a document; dates are
+ *   shifted by a fixed number of days so intervals between them survive
+ *
+ * The replacements are the reversible mapping: toOriginalSpan() maps offsets
+ * in model output back onto the original text and reidentify() puts original
+ * values back into generated text (summaries, answers). The mapping stays in
+ * the browser tab (loadMappings/storeMappings) and is cleared on sign-out.
+ */
+
+import { normalizeTemporal } from './temporal';
+
+export type PhiType = 'name' | 'mrn' | 'date' | 'phone' | 'address' | 'age';
+
+export type DeidMode = 'redact' | 'mask' | 'surrogate';
+
+export const PHI_LABELS: Record<PhiType, string> = {
+  name: 'Names',
+  mrn: 'Medical record numbers',
+  date: 'Dates',
+  phone: 'Phone numbers',
+  address: 'Addresses',
+  age: 'Ages over 89',
+};
+
+export const DEID_MODE_LABELS: Record<DeidMode, { label: string; example: string }> = {
+  redact: { label: 'Redact', example: 'Jane Doe -> [NAME-1]' },
+  mask: { label: 'Mask', example: 'Jane Doe -> ********' },
+  surrogate: { label: 'Surrogate', example: 'Jane Doe -> Morgan Ellis' },
+};
+
+export interface PhiSpan {
+  type: PhiType;
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface PhiReplacement extends PhiSpan {
+  replacement: string;
+  // Offsets of the replacement in the scrubbed text
+  scrubbedStart: number;
+  scrubbedEnd: number;
+}
+
+export interface DeidentifiedText {
+  text: string;
+  mode: DeidMode;
+  replacements: PhiReplacement[];
+}
+
+// Label words match in any case, the name itself must be capitalized
+function anyCase(label: string) {
+  return label.replace(/[a-z]/gi, c => `[${c.toLowerCase()}${c.toUpperCase()}]`);
+}
+
+const NAME_WORD = "[A-Z][a-z]+(?:[-'][A-Z][a-z]+)?";
+const FULL_NAME = `${NAME_WORD}(?:[ \\t]+[A-Z]\\.)?(?:[ \\t]+${NAME_WORD}){0,2}`;
+// Without an honorific a name needs at least two words, so "Diagnosis: Carcinoma" is not one
+const PERSON_NAME = `${NAME_WORD}(?:[ \\t]+[A-Z]\\.)?(?:[ \\t]+${NAME_WORD}){1,2}`;
+const HONORIFIC_WORDS = new Set(['Mr', 'Mrs', 'Ms', 'Miss', 'Dr']);
+const HONORIFIC = `(?:${[...HONORIFIC_WORDS].join('|')})\\.?[ \\t]+`;
+// Generic labels only count at the start of a line ("Procedure name: ..." is not a patient)
+const LINE_NAME_LABELS = ['patient name', 'patient', 'pt name', 'name'];
+const NAME_LABELS = [
+  'attending physician', 'attending', 'physician', 'surgeon', 'pathologist', 'radiologist', 'oncologist',
+  'referring physician', 'referred by', 'electronically signed by', 'signed by',
+];
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+// Value is the last capture group, or the whole match
+const PHI_PATTERNS: Array<{ type: PhiType; pattern: RegExp; accept?: (value: string) => boolean }> = [
+  { type: 'name', pattern: new RegExp(`\\b${HONORIFIC}(${FULL_NAME})`, 'g') },
+  { type: 'name', pattern: new RegExp(`^[ \\t]*(?:${LINE_NAME_LABELS.map(anyCase).join('|')})[ \\t]*:[ \\t]*(${PERSON_NAME})`, 'gm') },
+  { type: 'name', pattern: new RegExp(`\\b(?:${NAME_LABELS.map(anyCase).join('|')})[ \\t]*:[ \\t]*(${PERSON_NAME})`, 'g') },
+  { type: 'mrn', pattern: /\b(?:MRN|MR#|medical record(?:\s+(?:number|no\.?|#))?|record\s*(?:#|no\.?|number)|acct\.?\s*#?|account\s*(?:#|no\.?|number)?)\s*[:#]?\s*([A-Z]{0,3}-?\d[\d-]{4,})/gi },
+  { type: 'phone', pattern: /(?<!\d)(?:\+?1[-.\s]?)?\(?\d{3}\)?[-.\s]?\d{3}[-.\s]\d{4}(?!\d)/g },
+  {
+    type: 'address',
+    pattern: /\b\d{1,5}(?:[ \t]+[A-Z][a-z]+){1,3}[ \t]+(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Circle)\b\.?(?:,?[ \t]+(?:Apt|Suite|Unit|#)\.?[ \t]*\w+)?(?:,[ \t]*[A-Z][a-z]+(?:[ \t]+[A-Z][a-z]+)*(?:,[ \t]*[A-Z]{2})?(?:[ \t]+\d{5}(?:-\d{4})?)?)?/g,
+  },
+  { type: 'age', pattern: /\b\d{2,3}(?=[- ](?:years?|yrs?)[- ]old\b|[- ]?y\/?o\b)/gi, accept: value => Number(value) > 89 },
+  { type: 'age', pattern: /\b(?:age|aged)[ :]+(\d{2,3})\b/gi, accept: value => Number(value) > 89 },
+];
+
+function overlaps(spans: PhiSpan[], start: number, end: number) {
+  return spans.some(s => start < s.end && end > s.start);
+}
+
+export function detectPhi(text: string): PhiSpan[] {
+  const found: PhiSpan[] = [];
+
+  for (const { type, pattern, accept } of PHI_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const value = match[match.length - 1] ?? match[0];
+      if (accept && !accept(value)) continue;
+      const start = (match.index ?? 0) + match[0].lastIndexOf(value);
+      found.push({ type, start, end: start + value.length, text: value });
+    }
+  }
+
+  // Full and month-level dates; a bare year is not identifying
+  normalizeTemporal(text, new Date())
+    .filter(t => t.kind === 'absolute' && t.granularity !== 'year')
+    .forEach(t => found.push({ type: 'date', start: t.start, end: t.end, text: t.text }));
+
+  // Later mentions of a detected name ("Mrs. Jane Doe ... Doe reports"), with a
+  // capitalized word directly before or after it ("Dr. Smith ... Jane Smith")
+  const nameWords = new Set(found.filter(s => s.type === 'name').flatMap(s => s.text.split(/\s+/)).filter(w => w.length > 2));
+  nameWords.forEach(word => {
+    const mention = new RegExp(`(?:\\b(${NAME_WORD})([ \\t]+))?\\b${word}\\b(?:([ \\t]+)(${NAME_WORD})\\b)?`, 'g');
+    for (const match of text.matchAll(mention)) {
+      const [, before, beforeGap, afterGap, after] = match;
+      const wordStart = (match.index ?? 0) + (before ? before.length + beforeGap.length : 0);
+      const start = before && !HONORIFIC_WORDS.has(before) ? match.index ?? 0 : wordStart;
+      const end = wordStart + word.length + (after && !HONORIFIC_WORDS.has(after) ? afterGap.length + after.length : 0);
+      found.push({ type: 'name', start, end, text: text.slice(start, end) });
+    }
+  });
+
+  // Longest span wins where patterns overlap
+  const kept: PhiSpan[] = [];
+  [...found]
+    .sort((a, b) => (b.end - b.start) - (a.end - a.start))
+    .forEach(span => {
+      if (!overlaps(kept, span.start, span.end)) kept.push(span);
+    });
+  return kept.sort((a, b) => a.start - b.start);
+}
+
+const SURROGATE_NAMES = [
+  'Morgan', 'Ellis', 'Parker', 'Reed', 'Hayes', 'Quinn', 'Avery', 'Blake', 'Carter', 'Drew', 'Emerson', 'Finley', 'Grant',
+  'Harper', 'Jordan', 'Kendall', 'Lane', 'Logan', 'Marlow', 'Nash', 'Olsen', 'Peyton', 'Riley', 'Sawyer', 'Taylor', 'Wells',
+];
+const SURROGATE_STREETS = ['Oak', 'Maple', 'Cedar', 'Elm', 'Pine', 'Birch', 'Willow', 'Spruce'];
+
+function hash(value: string) {
+  let h = 5381;
+  for (let i = 0; i < value.length; i++) h = ((h << 5) + h + value.charCodeAt(i)) >>> 0;
+  return h;
+}
+
+function shiftedDate(span: PhiSpan, shiftDays: number) {
+  const [parsed] = normalizeTemporal(span.text, new Date());
+  if (!parsed) return null;
+  const date = new Date(`${parsed.value}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + shiftDays);
+  const [year, month, day] = [date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()];
+
+  // Keep the style of the original: ISO, numeric or spelled-out month
+  if (parsed.granularity === 'month') {
+    return span.text.includes('/') ? `${String(month + 1).padStart(2, '0')}/${year}` : `${MONTH_NAMES[month]} ${year}`;
+  }
+  if (/^\d{4}-/.test(span.text)) return date.toISOString().slice(0, 10);
+  if (span.text.includes('/')) return `${month + 1}/${day}/${year}`;
+  return `${MONTH_NAMES[month]} ${day}, ${year}`;
+}
+
+export function deidentify(text: string, mode: DeidMode, dateShiftDays = 0): DeidentifiedText {
+  const spans = detectPhi(text);
+  // original value -> replacement, so repeated values get the same replacement
+  const assigned = new Map<string, string>();
+  const used = new Set<string>();
+  const counters: Partial<Record<PhiType, number>> = {};
+
+  const surrogate = (span: PhiSpan): string => {
+    const h = hash(span.text);
+    switch (span.type) {
+      case 'name':
+        return span.text.split(/(\s+)/).map(part => {
+          if (/^\s+$/.test(part) || /^[A-Z]\.$/.test(part)) return part;
+          // Each name word is replaced on its own so "Doe" alone matches "Jane Doe"
+          const key = `name:${part}`;
+          if (!assigned.has(key)) {
+            let idx = hash(part) % SURROGATE_NAMES.length;
+            while (used.has(SURROGATE_NAMES[idx]) && used.size < SURROGATE_NAMES.length) idx = (idx + 1) % SURROGATE_NAMES.length;
+            used.add(SURROGATE_NAMES[idx]);
+            assigned.set(key, SURROGATE_NAMES[idx]);
+          }
+          return assigned.get(key) as string;
+        }).join('');
+      case 'mrn':
+        return span.text.replace(/\d/g, (_, i: number) => String((h >>> (i % 24)) % 10));
+      case 'phone':
+        return `555-555-01${String(h % 100).padStart(2, '0')}`;
+      case 'address':
+        return `${100 + (h % 900)} ${SURROGATE_STREETS[h % SURROGATE_STREETS.length]} Street`;
+      case 'age':
+        return '90';
+      case 'date':
+        return shiftedDate(span, dateShiftDays) ?? '[DATE]';
+    }
+  };
+
+  const replace = (span: PhiSpan) => {
+    if (mode === 'mask') return '*'.repeat(span.text.length);
+    const key = `${span.type}:${span.text}`;
+    if (!assigned.has(key)) {
+      if (mode === 'redact') {
+        counters[span.type] = (counters[span.type] ?? 0) + 1;
+        assigned.set(key, `[${span.type.toUpperCase()}-${counters[span.type]}]`);
+      } else {
+        assigned.set(key, surrogate(span));
+      }
+    }
+    return assigned.get(key) as string;
+  };
+
+  const replacements: PhiReplacement[] = [];
+  let scrubbed = '';
+  let cursor = 0;
+  spans.forEach(span => {
+    scrubbed += text.slice(cursor, span.start);
+    const replacement = replace(span);
+    replacements.push({ ...span, replacement, scrubbedStart: scrubbed.length, scrubbedEnd: scrubbed.length + replacement.length });
+    scrubbed += replacement;
+    cursor = span.end;
+  });
+  scrubbed += text.slice(cursor);
+
+  return { text: scrubbed, mode, replacements };
+}
+
+// Map an offset in the scrubbed text back to the original; offsets inside a
+// replacement snap to the start or end of the value it replaced
+function toOriginalOffset(replacements: PhiReplacement[], offset: number, side: 'start' | 'end') {
+  let delta = 0;
+  for (const r of replacements) {
+    if (offset <= r.scrubbedStart) break;
+    if (offset < r.scrubbedEnd) return side === 'start' ? r.start : r.end;
+    delta += (r.scrubbedEnd - r.scrubbedStart) - (r.end - r.start);
+  }
+  return offset - delta;
+}
+
+export function toOriginalSpan<T extends { start: number; end: number }>(deid: DeidentifiedText, span: T): T {
+  return { ...span, start: toOriginalOffset(deid.replacements, span.start, 'start'), end: toOriginalOffset(deid.replacements, span.end, 'end') };
+}
+
+// Entities found in the scrubbed text, re-read from the original
+export function restoreEntities<T extends { start: number; end: number; text: string }>(entities: T[], deid: DeidentifiedText, original: string): T[] {
+  return entities.map(entity => {
+    const restored = toOriginalSpan(deid, entity);
+    return { ...restored, text: original.slice(restored.start, restored.end) };
+  });
+}
+
+// Replacements that can be put back into generated text: each stands for one
+// original value and does not occur in the scrubbed text on its own. Surrogate
+// ages are all "90" and masked values are all "*", so neither is restored.
+function restorableValues(deid: DeidentifiedText) {
+  if (deid.mode === 'mask') return new Map<string, string>();
+  const originals = new Map<string, Set<string>>();
+  const counts = new Map<string, number>();
+  deid.replacements.forEach(r => {
+    originals.set(r.replacement, (originals.get(r.replacement) ?? new Set()).add(r.text));
+    counts.set(r.replacement, (counts.get(r.replacement) ?? 0) + 1);
+  });
+  const values = new Map<string, string>();
+  originals.forEach((texts, replacement) => {
+    const generic = deid.mode === 'surrogate' && deid.replacements.some(r => r.replacement === replacement && r.type === 'age');
+    const collides = deid.text.split(replacement).length - 1 > (counts.get(replacement) ?? 0);
+    if (texts.size === 1 && !generic && !collides) values.set(replacement, [...texts][0]);
+  });
+  return values;
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Put original values back into text generated from the scrubbed input
+// (summaries). Only whole-word occurrences of restorable values are replaced.
+export function reidentify(text: string, deid: DeidentifiedText) {
+  const values = restorableValues(deid);
+  if (values.size === 0) return text;
+  const pattern = new RegExp(
+    [...values.keys()].sort((a, b) => b.length - a.length).map(v => `(?<![\\w-])${escapeRegExp(v)}(?![\\w-])`).join('|'),
+    'g'
+  );
+  return text.replace(pattern, match => values.get(match) ?? match);
+}
+
+// An extractive answer points into the scrubbed text, so it is read from the
+// original by offset. Answers without offsets fall back to reidentify().
+export function restoreAnswer<T extends { answer: string; context: string; start?: number; end?: number }>(
+  result: T,
+  deid: DeidentifiedText,
+  original: string
+): T {
+  if (result.start === undefined || result.end === undefined || result.end <= result.start) {
+    return { ...result, answer: reidentify(result.answer, deid), context: reidentify(result.context, deid) };
+  }
+  const span = toOriginalSpan(deid, { start: result.start, end: result.end });
+  return {
+    ...result,
+    ...span,
+    answer: original.slice(span.start, span.end),
+    context: original.slice(Math.max(0, span.start - 50), Math.min(original.length, span.end + 50)),
+  };
+}
+
+// Apply a document's replacements to related text, e.g. a question about that document
+export function applyReplacements(text: string, deid: DeidentifiedText) {
+  const distinct = new Map(deid.replacements.map(r => [r.text, r.replacement]));
+  return [...distinct.entries()]
+    .sort((a, b) => b[0].length - a[0].length)
+    .reduce((result, [original, replacement]) => result.split(original).join(replacement), text);
+}
+
+export function countPhi(deid: DeidentifiedText) {
+  return deid.replacements.reduce((acc: Partial<Record<PhiType, number>>, r) => {
+    acc[r.type] = (acc[r.type] ?? 0) + 1;
+    return acc;
+  }, {});
+}
+
+export interface StoredMapping {
+  scrubbed: string;
+  original: string;
+}
+
+// The originals are PHI: kept in session storage for this tab only, and
+// cleared on sign-out (AuthProvider)
+const MAPPINGS_KEY = 'deidentificationMappings';
+
+export function loadMappings(): StoredMapping[] {
+  // Earlier versions kept the mappings in localStorage
+  localStorage.removeItem(MAPPINGS_KEY);
+  try {
+    return JSON.parse(sessionStorage.getItem(MAPPINGS_KEY) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+export function storeMappings(mappings: StoredMapping[]) {
+  sessionStorage.setItem(MAPPINGS_KEY, JSON.stringify(mappings));
+}
+
+export function clearStoredMappings() {
+  sessionStorage.removeItem(MAPPINGS_KEY);
+  localStorage.removeItem(MAPPINGS_KEY);
+}
@@ -0,0 +1,198 @@
+/**
+ * Span-level NER evaluation against the bundled gold-standard JSONL datasets
+ *
+ * Datasets are one JSON object per line: { text, entities: [{ start, end, label }] }.
+ * Scores are computed two ways:
+ * - strict: same label and exactly the same character offsets
+ * - lenient: same label and overlapping offsets (one-to-one)
+ * The confusion matrix pairs each gold span with its best-overlapping prediction
+ * regardless of label, so schema mismatches between model and dataset show up.
+ */
+
+export interface GoldSpan {
+  start: number;
+  end: number;
+  label: string;
+}
+
+export interface PredictedSpan extends GoldSpan {
+  confidence?: number;
+}
+
+export interface GoldDocument {
+  text: string;
+  entities: GoldSpan[];
+}
+
+export interface EvaluationDocument extends GoldDocument {
+  predicted: PredictedSpan[];
+}
+
+export interface LabelScores {
+  tp: number;
+  fp: number;
+  fn: number;
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+export interface MatchScores {
+  perLabel: Record<string, LabelScores>;
+  micro: LabelScores;
+  macroF1: number;
+}
+
+// Rows are gold labels, columns predicted labels; NO_MATCH marks a miss or a spurious prediction
+export interface ConfusionMatrix {
+  goldLabels: string[];
+  predictedLabels: string[];
+  counts: Record<string, Record<string, number>>;
+}
+
+export interface EvaluationReport {
+  documents: number;
+  goldSpans: number;
+  predictedSpans: number;
+  strict: MatchScores;
+  lenient: MatchScores;
+  confusion: ConfusionMatrix;
+}
+
+export const NO_MATCH = 'O';
+
+export function parseJsonlDataset(content: string): GoldDocument[] {
+  return content
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map((line, idx) => {
+      const row = JSON.parse(line);
+      if (typeof row.text !== 'string' || !Array.isArray(row.entities)) {
+        throw new Error(`Line ${idx + 1}: expected { text, entities[] }`);
+      }
+      return { text: row.text, entities: row.entities };
+    });
+}
+
+function overlap(a: GoldSpan, b: GoldSpan) {
+  return Math.max(0, Math.min(a.end, b.end) - Math.max(a.start, b.start));
+}
+
+// Greedy one-to-one pairing, best overlap first
+function pairSpans(
+  gold: GoldSpan[],
+  predicted: PredictedSpan[],
+  accept: (g: GoldSpan, p: PredictedSpan) => boolean,
+) {
+  const candidates: Array<[number, number, number]> = [];
+  gold.forEach((g, gi) => predicted.forEach((p, pi) => {
+    if (accept(g, p)) candidates.push([gi, pi, overlap(g, p)]);
+  }));
+  candidates.sort((a, b) => b[2] - a[2]);
+
+  const goldUsed = new Set<number>();
+  const predUsed = new Set<number>();
+  const pairs: Array<[number, number]> = [];
+  for (const [gi, pi] of candidates) {
+    if (goldUsed.has(gi) || predUsed.has(pi)) continue;
+    goldUsed.add(gi);
+    predUsed.add(pi);
+    pairs.push([gi, pi]);
+  }
+  return { pairs, goldUsed, predUsed };
+}
+
+function scores(tp: number, fp: number, fn: number): LabelScores {
+  const precision = tp + fp > 0 ? tp / (tp + fp) : 0;
+  const recall = tp + fn > 0 ? tp / (tp + fn) : 0;
+  const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+  return { tp, fp, fn, precision, recall, f1 };
+}
+
+function score(documents: EvaluationDocument[], accept: (g: GoldSpan, p: PredictedSpan) => boolean): MatchScores {
+  const counts: Record<string, { tp: number; fp: number; fn: number }> = {};
+  const bump = (label: string, key: 'tp' | 'fp' | 'fn') => {
+    counts[label] = counts[label] || { tp: 0, fp: 0, fn: 0 };
+    counts[label][key] += 1;
+  };
+
+  for (const doc of documents) {
+    const { goldUsed, predUsed } = pairSpans(doc.entities, doc.predicted, accept);
+    doc.entities.forEach((g, gi) => bump(g.label, goldUsed.has(gi) ? 'tp' : 'fn'));
+    doc.predicted.forEach((p, pi) => { if (!predUsed.has(pi)) bump(p.label, 'fp'); });
+  }
+
+  const perLabel = Object.fromEntries(
+    Object.entries(counts).sort(([a], [b]) => a.localeCompare(b)).map(([label, c]) => [label, scores(c.tp, c.fp, c.fn)])
+  );
+  const totals = Object.values(counts).reduce(
+    (acc, c) => ({ tp: acc.tp + c.tp, fp: acc.fp + c.fp, fn: acc.fn + c.fn }),
+    { tp: 0, fp: 0, fn: 0 }
+  );
+  const labelScores = Object.values(perLabel);
+
+  return {
+    perLabel,
+    micro: scores(totals.tp, totals.fp, totals.fn),
+    macroF1: labelScores.length > 0 ? labelScores.reduce((sum, s) => sum + s.f1, 0) / labelScores.length : 0,
+  };
+}
+
+function confusionMatrix(documents: EvaluationDocument[]): ConfusionMatrix {
+  const counts: Record<string, Record<string, number>> = {};
+  const bump = (gold: string, pred: string) => {
+    counts[gold] = counts[gold] || {};
+    counts[gold][pred] = (counts[gold][pred] || 0) + 1;
+  };
+
+  for (const doc of documents) {
+    const { pairs, goldUsed, predUsed } = pairSpans(doc.entities, doc.predicted, (g, p) => overlap(g, p) > 0);
+    pairs.forEach(([gi, pi]) => bump(doc.entities[gi].label, doc.predicted[pi].label));
+    doc.entities.forEach((g, gi) => { if (!goldUsed.has(gi)) bump(g.label, NO_MATCH); });
+    doc.predicted.forEach((p, pi) => { if (!predUsed.has(pi)) bump(NO_MATCH, p.label); });
+  }
+
+  const goldLabels = Object.keys(counts).sort();
+  const predictedLabels = [...new Set(Object.values(counts).flatMap(row => Object.keys(row)))].sort();
+  return { goldLabels, predictedLabels, counts };
+}
+
+export function evaluateNER(documents: EvaluationDocument[]): EvaluationReport {
+  return {
+    documents: documents.length,
+    goldSpans: documents.reduce((sum, d) => sum + d.entities.length, 0),
+    predictedSpans: documents.reduce((sum, d) => sum + d.predicted.length, 0),
+    strict: score(documents, (g, p) => g.label === p.label && g.start === p.start && g.end === p.end),
+    lenient: score(documents, (g, p) => g.label === p.label && overlap(g, p) > 0),
+    confusion: confusionMatrix(documents),
+  };
+}
+
+// Plain-text rendering for the CLI
+export function formatEvaluationReport(report: EvaluationReport): string {
+  const pct = (n: number) => `${(n * 100).toFixed(1)}%`.padStart(7);
+  const lines: string[] = [
+    `Documents: ${report.documents}  Gold spans: ${report.goldSpans}  Predicted spans: ${report.predictedSpans}`,
+  ];
+
+  for (const mode of ['strict', 'lenient'] as const) {
+    const s = report[mode];
+    lines.push('', `${mode.toUpperCase()}  micro P ${pct(s.micro.precision)}  R ${pct(s.micro.recall)}  F1 ${pct(s.micro.f1)}  macro F1 ${pct(s.macroF1)}`);
+    lines.push(`  ${'label'.padEnd(24)}${'P'.padStart(7)}${'R'.padStart(7)}${'F1'.padStart(7)}   tp  fp  fn`);
+    for (const [label, l] of Object.entries(s.perLabel)) {
+      lines.push(`  ${label.padEnd(24)}${pct(l.precision)}${pct(l.recall)}${pct(l.f1)}  ${String(l.tp).padStart(3)} ${String(l.fp).padStart(3)} ${String(l.fn).padStart(3)}`);
+    }
+  }
+
+  lines.push('', 'CONFUSION (rows: gold, columns: predicted, O = no match)');
+  const { goldLabels, predictedLabels, counts } = report.confusion;
+  for (const gold of goldLabels) {
+    const cells = predictedLabels
+      .filter(pred => counts[gold][pred])
+      .map(pred => `${pred}=${counts[gold][pred]}`);
+    lines.push(`  ${gold.padEnd(24)}${cells.join('  ')}`);
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,154 @@
+/**
+ * Label-schema mapping between model tags and our dataset labels
+ *
+ * The NER models emit their own tag sets (d4data: Sign_symptom, Medication...;
+ * i2b2-style clinical models: problem/treatment/test) while the gold datasets
+ * use labels such as TUMOR_TYPE, CO_MORBIDITY or CLOCK_POSITION. A mapping is a
+ * versioned, JSON-serializable list of rules that projects model labels onto a
+ * target schema. Rules are tried in order; an optional regex on the entity text
+ * lets one model tag split into several target labels.
+ *
+ * Labels with no matching rule are kept (with their original type) and counted
+ * in `unmapped`, so callers can report them instead of losing entities.
+ */
+
+export interface LabelRule {
+  from: string;
+  to: string;
+  // Case-insensitive regex tested against the entity text
+  pattern?: string;
+}
+
+export interface LabelMapping {
+  id: string;
+  version: number;
+  description: string;
+  targetSchema: string;
+  targetLabels: string[];
+  rules: LabelRule[];
+}
+
+export interface ProjectionResult<T> {
+  mapping: { id: string; version: number; targetSchema: string };
+  entities: Array<T & { type: string; sourceType: string }>;
+  // Source label -> number of entities that had no rule
+  unmapped: Record<string, number>;
+}
+
+export const CLINICAL_V1_LABELS = [
+  'TUMOR_TYPE', 'TUMOR_SIZE', 'SIZE', 'GRADE', 'STAGE', 'TNM_STAGE', 'RECEPTOR_STATUS', 'BIOMARKER', 'RESULT',
+  'DIAGNOSIS', 'CO_MORBIDITY', 'SYMPTOM', 'TEST', 'MODALITY', 'PROCEDURE', 'CHEMOTHERAPY', 'THERAPY_TYPE',
+  'MEDICATION', 'DOSAGE', 'FREQUENCY', 'DURATION', 'LOCATION', 'LATERALITY', 'CLOCK_POSITION', 'DATE',
+  'AGE', 'GENDER', 'FAMILY_HISTORY', 'OUTCOME',
+];
+
+export const LABEL_MAPPINGS: LabelMapping[] = [
+  {
+    id: 'models-to-clinical',
+    version: 1,
+    description: 'd4data, i2b2 (ClinicalBERT) and BENT (PubMedBERT) tags onto the clinical dataset labels',
+    targetSchema: 'clinical-v1',
+    targetLabels: CLINICAL_V1_LABELS,
+    rules: [
+      // d4data/biomedical-ner-all (BioBERT)
+      { from: 'Disease_disorder', to: 'TUMOR_TYPE', pattern: 'carcinoma|tumou?r|cancer|neoplasm|sarcoma|lymphoma' },
+      { from: 'Disease_disorder', to: 'DIAGNOSIS' },
+      { from: 'Sign_symptom', to: 'SYMPTOM' },
+      { from: 'Diagnostic_procedure', to: 'RECEPTOR_STATUS', pattern: '^(er|pr|her2|her2/neu|estrogen receptor|progesterone receptor)$' },
+      { from: 'Diagnostic_procedure', to: 'MODALITY', pattern: 'mammo|ultrasound|sonograph|mri|\\bct\\b|pet|imaging' },
+      { from: 'Diagnostic_procedure', to: 'TEST' },
+      { from: 'Therapeutic_procedure', to: 'CHEMOTHERAPY', pattern: 'chemo|^ac-t$|^tc$' },
+      { from: 'Therapeutic_procedure', to: 'THERAPY_TYPE', pattern: 'radiation|radiotherapy|hormon|endocrine|immunotherapy' },
+      { from: 'Therapeutic_procedure', to: 'PROCEDURE' },
+      { from: 'Medication', to: 'MEDICATION' },
+      { from: 'Dosage', to: 'DOSAGE' },
+      { from: 'Frequency', to: 'FREQUENCY' },
+      { from: 'Duration', to: 'DURATION' },
+      { from: 'Biological_structure', to: 'LATERALITY', pattern: '^(left|right|bilateral)$' },
+      { from: 'Biological_structure', to: 'LOCATION' },
+      { from: 'Lab_value', to: 'SIZE', pattern: '\\d\\s?(cm|mm)\\b' },
+      { from: 'Lab_value', to: 'RESULT' },
+      { from: 'Severity', to: 'GRADE', pattern: 'grade' },
+      { from: 'Date', to: 'DATE' },
+      { from: 'Age', to: 'AGE' },
+      { from: 'Sex', to: 'GENDER' },
+      { from: 'Family_history', to: 'FAMILY_HISTORY' },
+      { from: 'Outcome', to: 'OUTCOME' },
+
+      // i2b2 2010 tags (ClinicalBERT)
+      { from: 'problem', to: 'TUMOR_TYPE', pattern: 'carcinoma|tumou?r|cancer|neoplasm' },
+      { from: 'problem', to: 'DIAGNOSIS' },
+      { from: 'treatment', to: 'CHEMOTHERAPY', pattern: 'chemo' },
+      { from: 'treatment', to: 'PROCEDURE' },
+      { from: 'test', to: 'MODALITY', pattern: 'mammo|ultrasound|mri|\\bct\\b|pet' },
+      { from: 'test', to: 'TEST' },
+
+      // BENT disease tagger (PubMedBERT)
+      { from: 'Disease', to: 'TUMOR_TYPE', pattern: 'carcinoma|tumou?r|cancer|neoplasm' },
+      { from: 'Disease', to: 'DIAGNOSIS' },
+    ],
+  },
+];
+
+export const DEFAULT_LABEL_MAPPING = 'models-to-clinical';
+
+// Validate a mapping loaded from JSON (e.g. a custom file passed to the evaluation script)
+export function parseLabelMapping(raw: unknown): LabelMapping {
+  const m = raw as Partial<LabelMapping>;
+  if (!m || typeof m.id !== 'string' || typeof m.version !== 'number' || !Array.isArray(m.rules) || !Array.isArray(m.targetLabels)) {
+    throw new Error('Label mapping needs id, version, targetLabels[] and rules[]');
+  }
+  const targets = new Set(m.targetLabels);
+  m.rules.forEach((rule, idx) => {
+    if (typeof rule.from !== 'string' || typeof rule.to !== 'string') {
+      throw new Error(`Rule ${idx}: expected { from, to, pattern? }`);
+    }
+    if (!targets.has(rule.to)) {
+      throw new Error(`Rule ${idx}: target label "${rule.to}" is not in targetLabels`);
+    }
+    if (rule.pattern !== undefined) new RegExp(rule.pattern, 'i');
+  });
+  return {
+    id: m.id,
+    version: m.version,
+    description: m.description ?? '',
+    targetSchema: m.targetSchema ?? m.id,
+    targetLabels: m.targetLabels,
+    rules: m.rules,
+  };
+}
+
+export function getLabelMapping(id: string): LabelMapping {
+  const mapping = LABEL_MAPPINGS.find(m => m.id === id);
+  if (!mapping) {
+    throw new Error(`Unknown label mapping "${id}". Available: ${LABEL_MAPPINGS.map(m => m.id).join(', ')}`);
+  }
+  return mapping;
+}
+
+export function mapLabel(mapping: LabelMapping, label: string, text = ''): string | null {
+  for (const rule of mapping.rules) {
+    if (rule.from !== label) continue;
+    if (rule.pattern && !new RegExp(rule.pattern, 'i').test(text.trim())) continue;
+    return rule.to;
+  }
+  return null;
+}
+
+export function projectEntities<T extends { type: string; text?: string }>(
+  entities: T[],
+  mapping: LabelMapping
+): ProjectionResult<T> {
+  const unmapped: Record<string, number> = {};
+  const projected = entities.map(entity => {
+    const target = mapLabel(mapping, entity.type, entity.text);
+    if (!target) unmapped[entity.type] = (unmapped[entity.type] || 0) + 1;
+    return { ...entity, type: target ?? entity.type, sourceType: entity.type };
+  });
+
+  return {
+    mapping: { id: mapping.id, version: mapping.version, targetSchema: mapping.targetSchema },
+    entities: projected,
+    unmapped,
+  };
+}
@@ -0,0 +1,171 @@
+/**
+ * Structured staging extraction (TNM, AJCC stage group, histologic grade)
+ *
+ * NER only tags "T2N0M0" or "Stage IIA" as flat spans. This parser reads the
+ * components out of the text, derives the anatomic stage group the TNM implies
+ * (AJCC 8th edition, breast) and reports contradictions with the stated stage.
+ */
+
+export type StagePrefix = 'c' | 'p' | 'yc' | 'yp' | 'r';
+
+export const STAGE_PREFIX_LABELS: Record<StagePrefix, string> = {
+  c: 'clinical',
+  p: 'pathologic',
+  yc: 'post-therapy clinical',
+  yp: 'post-therapy pathologic',
+  r: 'recurrence',
+};
+
+interface TextSpan {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface TNMStaging extends TextSpan {
+  prefix: StagePrefix | null;
+  t: string;
+  n: string | null;
+  m: string | null;
+  // Stage group implied by the components, null when it cannot be derived (TX, NX...)
+  derivedStage: string | null;
+}
+
+export interface StageGroup extends TextSpan {
+  group: string;
+}
+
+export interface HistologicGrade extends TextSpan {
+  grade: 1 | 2 | 3;
+}
+
+export interface StagingIssue {
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface StagingResult {
+  tnm: TNMStaging[];
+  stages: StageGroup[];
+  grade: HistologicGrade | null;
+  issues: StagingIssue[];
+}
+
+const TNM_PATTERN = new RegExp(
+  '\\b(yp|yc|[cpr])?T(is|[xX]|[0-4](?:mi|[a-d])?)' +
+  '(?:[\\s,/]*(?:yp|yc|[cpr])?N([xX]|[0-3](?:mi|[a-c])?)(?:\\((?:sn|i[+-]|mol[+-])\\))?)?' +
+  '(?:[\\s,/]*(?:yp|yc|[cpr])?M([xX]|[01]))?\\b',
+  'g'
+);
+
+const STAGE_PATTERN = /\bstage\s+(0|IV|I{1,3}[ABC]?|[1-4][ABC]?)\b/gi;
+
+const GRADE_PATTERNS: Array<[RegExp, (m: RegExpExecArray) => string]> = [
+  [/\b(?:nottingham\s+|histologic\s+|combined\s+)?grade\s*[:=]?\s*(III|II|I|[1-3])(?:\s*\/\s*(?:III|3))?\b/gi, m => m[1]],
+  [/\bG([1-3])\b/g, m => m[1]],
+  [/\b(well|moderately|poorly)[\s-]+differentiated\b/gi, m => ({ well: '1', moderately: '2', poorly: '3' })[m[1].toLowerCase()] as string],
+];
+
+const ROMAN: Record<string, string> = { '1': 'I', '2': 'II', '3': 'III', '4': 'IV' };
+
+function normalizeStageGroup(raw: string) {
+  const match = raw.toUpperCase().match(/^(0|IV|I{1,3}|[1-4])([ABC]?)$/);
+  if (!match) return raw.toUpperCase();
+  return (ROMAN[match[1]] ?? match[1]) + match[2];
+}
+
+function gradeValue(raw: string): 1 | 2 | 3 {
+  const value = ({ I: 1, II: 2, III: 3 } as Record<string, number>)[raw.toUpperCase()] ?? Number(raw);
+  return value as 1 | 2 | 3;
+}
+
+// AJCC 8th edition anatomic stage groups for breast cancer
+export function deriveStageGroup(t: string, n: string | null, m: string | null): string | null {
+  if (m === '1') return 'IV';
+  if (n === null || m === null || m === 'x' || n === 'x' || t === 'x') return null;
+
+  const tCat = t === 'is' ? 'is' : t[0];
+  const nCat = n === '1mi' ? '1mi' : n[0];
+
+  if (nCat === '3') return 'IIIC';
+  if (tCat === '4') return 'IIIB';
+  if (tCat === 'is') return nCat === '0' ? '0' : null;
+  if (nCat === '2') return 'IIIA';
+  if (tCat === '3') return nCat === '0' ? 'IIB' : 'IIIA';
+  if (tCat === '2') return nCat === '0' ? 'IIA' : 'IIB';
+  // T0 / T1 (including T1mi)
+  if (nCat === '0') return tCat === '0' ? null : 'IA';
+  if (nCat === '1mi') return 'IB';
+  return 'IIA';
+}
+
+// "Stage II" is consistent with a derived IIA/IIB; "Stage IIA" must match exactly
+function stageMatches(stated: string, derived: string) {
+  return stated === derived || (!/[ABC]$/.test(stated) && derived.replace(/[ABC]$/, '') === stated);
+}
+
+function nearest<T extends TextSpan>(items: T[], target: TextSpan) {
+  return items.reduce<T | null>((best, item) => {
+    if (!best) return item;
+    return Math.abs(item.start - target.start) < Math.abs(best.start - target.start) ? item : best;
+  }, null);
+}
+
+export function extractStaging(text: string): StagingResult {
+  const tnm: TNMStaging[] = [];
+  for (const match of text.matchAll(TNM_PATTERN)) {
+    const [raw, prefix, t, n, m] = match;
+    // A bare "T2" is too ambiguous (vertebra, MRI weighting) without N or M alongside
+    if (!n && !m) continue;
+    const tValue = t.toLowerCase();
+    const nValue = n ? n.toLowerCase() : null;
+    const mValue = m ? m.toLowerCase() : null;
+    tnm.push({
+      text: raw,
+      start: match.index,
+      end: match.index + raw.length,
+      prefix: (prefix as StagePrefix | undefined) ?? null,
+      t: tValue,
+      n: nValue,
+      m: mValue,
+      derivedStage: deriveStageGroup(tValue, nValue, mValue),
+    });
+  }
+
+  const stages: StageGroup[] = [...text.matchAll(STAGE_PATTERN)].map(match => ({
+    text: match[0],
+    start: match.index,
+    end: match.index + match[0].length,
+    group: normalizeStageGroup(match[1]),
+  }));
+
+  let grade: HistologicGrade | null = null;
+  for (const [pattern, value] of GRADE_PATTERNS) {
+    const match = new RegExp(pattern.source, pattern.flags).exec(text);
+    if (match) {
+      grade = { text: match[0], start: match.index, end: match.index + match[0].length, grade: gradeValue(value(match)) };
+      break;
+    }
+  }
+
+  const issues: StagingIssue[] = [];
+  for (const stage of stages) {
+    const staging = nearest(tnm, stage);
+    if (!staging) continue;
+    if (!staging.derivedStage) {
+      issues.push({ severity: 'warning', message: `Stage group cannot be derived from ${staging.text} to check stated ${stage.text}` });
+    } else if (!stageMatches(stage.group, staging.derivedStage)) {
+      issues.push({
+        severity: 'error',
+        message: `${staging.text} corresponds to Stage ${staging.derivedStage}, but the text states ${stage.text}`,
+      });
+    }
+  }
+
+  const pathologic = new Set(tnm.filter(s => s.prefix === 'p' || s.prefix === null).map(s => s.derivedStage).filter(Boolean));
+  if (pathologic.size > 1) {
+    issues.push({ severity: 'warning', message: `TNM mentions imply different stage groups: ${[...pathologic].join(', ')}` });
+  }
+
+  return { tnm, stages, grade, issues };
+}
@@ -9,10 +9,131 @@ if (!supabaseUrl || !supabaseAnonKey) {
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey);
 
+// Entity as returned by the edge function; stored in extracted_entities
+export interface AnalysisEntityInput {
+  text: string;
+  type: string;
+  confidence: number;
+  start: number;
+  end: number;
+  concept?: { system: string; code: string; display: string; match: string; score: number } | null;
+}
+
+export interface NewAnalysis {
+  projectId: string;
+  inputText: string;
+  model: string;
+  analysisType: 'NER' | 'Summarization' | 'QA' | 'Comparison' | 'Batch NER';
+  results: unknown;
+  confidenceScore?: number;
+  entities?: AnalysisEntityInput[];
+}
+
+// Stores the analysis, its entities and the model stats atomically in a project (save_analysis
+// in supabase/schema.sql) and returns the new clinical_analyses id. Viewers cannot save.
+export async function saveAnalysis(analysis: NewAnalysis): Promise<string> {
+  const { data, error } = await supabase.rpc('save_analysis', {
+    _project_id: analysis.projectId,
+    _input_text: analysis.inputText,
+    _model_used: analysis.model,
+    _analysis_type: analysis.analysisType,
+    _results: analysis.results,
+    _confidence_score: analysis.confidenceScore ?? null,
+    _entities: (analysis.entities ?? []).map(({ text, type, confidence, start, end, concept }) => (
+      { text, type, confidence, start, end, concept: concept ?? null }
+    )),
+  });
+  if (error) throw new Error(`Saving the analysis failed: ${error.message}`);
+  return data as string;
+}
+
+// Same as content_hash() in supabase/schema.sql: hex SHA-256 of the UTF-8 text
+export async function contentHash(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export interface AppAuditEvent {
+  // null when the event spans projects (visible to the caller only)
+  projectId: string | null;
+  action: 'view_history' | 'export';
+  targetType?: AuditTargetType;
+  targetId?: string;
+  // De-identified text the event is about; only its hash is sent
+  inputText?: string;
+  parameters?: Record<string, unknown>;
+}
+
+// Records a history view or export in the audit log (log_audit_event in supabase/schema.sql);
+// analyses, saves and deletions are recorded by the edge function and the database.
+// A failed write is logged and does not interrupt the user.
+export async function logAuditEvent(event: AppAuditEvent): Promise<void> {
+  const { error } = await supabase.rpc('log_audit_event', {
+    _project_id: event.projectId,
+    _action: event.action,
+    _target_type: event.targetType ?? null,
+    _target_id: event.targetId ?? null,
+    _input_hash: event.inputText ? await contentHash(event.inputText) : null,
+    _parameters: event.parameters ?? {},
+  });
+  if (error) console.error('Audit log:', error.message);
+}
+
 // Database types for TypeScript
+export type WorkspaceRole = 'owner' | 'annotator' | 'viewer';
+
+export const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: 'Owner',
+  annotator: 'Annotator',
+  viewer: 'Viewer',
+};
+
+export interface Workspace {
+  id: string;
+  name: string;
+  created_by?: string;
+  created_at: string;
+}
+
+export interface WorkspaceMember {
+  user_id: string;
+  email: string;
+  role: WorkspaceRole;
+  created_at: string;
+}
+
+export interface Project {
+  id: string;
+  workspace_id: string;
+  name: string;
+  description?: string | null;
+  created_at: string;
+}
+
+export interface ClinicalDocument {
+  id: string;
+  project_id: string;
+  user_id?: string;
+  title: string;
+  content_hash: string;
+  created_at: string;
+}
+
+export interface Dataset {
+  id: string;
+  project_id: string;
+  user_id?: string;
+  name: string;
+  file_name?: string | null;
+  size_bytes?: number | null;
+  created_at: string;
+}
+
 export interface ClinicalAnalysis {
   id: string;
   user_id?: string;
+  project_id?: string;
+  document_id?: string | null;
   input_text: string;
   model_used: string;
   analysis_type: string;
@@ -23,27 +144,57 @@ export interface ClinicalAnalysis {
 
 export interface ExtractedEntity {
   id: string;
+  user_id?: string;
+  project_id?: string;
   analysis_id: string;
   entity_text: string;
   entity_type: string;
   confidence: number;
   start_pos?: number;
   end_pos?: number;
+  concept_system?: string | null;
+  concept_code?: string | null;
+  concept_display?: string | null;
+  concept_match?: string | null;
+  concept_score?: number | null;
   created_at: string;
 }
 
 export interface ModelPerformance {
   id: string;
+  project_id?: string;
   model_name: string;
   analysis_count: number;
+  // Averaged over the analyses that report a confidence (not summaries)
   avg_confidence: number;
+  confidence_samples?: number;
   total_entities_extracted: number;
   last_used: string;
   updated_at: string;
 }
 
+export type AuditAction = 'analyze' | 'save' | 'view_history' | 'export' | 'delete';
+export type AuditTargetType = 'analysis' | 'document' | 'batch' | 'dataset' | 'project' | 'audit';
+
+// Append-only; see audit_events in supabase/schema.sql
+export interface AuditEvent {
+  id: number;
+  occurred_at: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  action: AuditAction;
+  source: 'trigger' | 'edge_function' | 'app';
+  project_id: string | null;
+  target_type: AuditTargetType | null;
+  target_id: string | null;
+  input_hash: string | null;
+  parameters: Record<string, unknown>;
+}
+
 export interface BatchAnalysis {
   id: string;
+  user_id?: string;
+  project_id?: string;
   batch_name: string;
   total_documents: number;
   completed_documents: number;
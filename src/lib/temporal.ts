@@ -0,0 +1,252 @@
+/**
+ * Temporal expression normalization and clinical event timelines
+ *
+ * Dates in notes are either absolute ("2023-04-12", "April 2021") or relative
+ * to when the note was written ("3 weeks ago", "next week", "currently").
+ * Relative expressions are resolved against a reference date, usually the
+ * date the document was analyzed. "24 months post-treatment" is read as "now,
+ * 24 months after treatment": it dates the surrounding event at the reference
+ * date and adds an implied treatment event 24 months earlier.
+ *
+ * Clinical events (diagnosis, surgery, chemotherapy, ...) are found by keyword
+ * and take the closest temporal expression in the same sentence.
+ */
+
+export type Granularity = 'day' | 'month' | 'year';
+
+export interface TemporalExpression {
+  text: string;
+  start: number;
+  end: number;
+  // ISO date (YYYY-MM-DD); month/year granularity uses the first day
+  value: string;
+  granularity: Granularity;
+  kind: 'absolute' | 'relative';
+}
+
+export type EventCategory = 'diagnosis' | 'surgery' | 'chemotherapy' | 'radiation' | 'hormonal' | 'treatment' | 'follow-up';
+
+export interface TimelineEvent {
+  category: EventCategory;
+  text: string;
+  start: number;
+  end: number;
+  date: string | null;
+  granularity: Granularity | null;
+  // Expression the date came from; null when the event is undated
+  temporal: TemporalExpression | null;
+  // Added from a "N months post-X" phrase rather than mentioned on its own
+  implied?: boolean;
+}
+
+type Unit = 'day' | 'week' | 'month' | 'year';
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+const MONTH_PATTERN = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+const NUMBER_WORDS: Record<string, number> = { a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10, twelve: 12 };
+const QUANTITY = '(\\d+|a|an|one|two|three|four|five|six|seven|eight|nine|ten|twelve)';
+const UNIT = '(days?|weeks?|months?|years?)';
+
+const EVENT_PATTERNS: Array<[EventCategory, RegExp]> = [
+  ['diagnosis', /\b(?:diagnosed|diagnosis|biopsy (?:confirmed|showed|revealed))\b/gi],
+  ['surgery', /\b(?:lumpectomy|mastectomy|surgery|surgical excision|resection|sentinel (?:lymph )?node biopsy|axillary (?:lymph node )?dissection)\b/gi],
+  ['chemotherapy', /\b(?:(?:neo)?adjuvant chemotherapy|chemotherapy|doxorubicin|paclitaxel|docetaxel|cyclophosphamide|carboplatin|AC-T)\b/gi],
+  ['radiation', /\b(?:radiation therapy|radiotherapy|radiation)\b/gi],
+  ['hormonal', /\b(?:tamoxifen|anastrozole|letrozole|exemestane|hormonal therapy|endocrine therapy)\b/gi],
+  ['follow-up', /\b(?:follow-up|surveillance|recurrence)\b/gi],
+];
+
+const IMPLIED_CATEGORIES: Record<string, EventCategory> = {
+  treatment: 'treatment',
+  therapy: 'treatment',
+  surgery: 'surgery',
+  op: 'surgery',
+  operative: 'surgery',
+  lumpectomy: 'surgery',
+  mastectomy: 'surgery',
+  chemotherapy: 'chemotherapy',
+  chemo: 'chemotherapy',
+  radiation: 'radiation',
+  diagnosis: 'diagnosis',
+};
+
+function quantity(raw: string) {
+  return NUMBER_WORDS[raw.toLowerCase()] ?? Number(raw);
+}
+
+function unitOf(raw: string): Unit {
+  return raw.toLowerCase().replace(/s$/, '') as Unit;
+}
+
+function toISO(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+function shift(reference: Date, amount: number, unit: Unit) {
+  const date = new Date(Date.UTC(reference.getUTCFullYear(), reference.getUTCMonth(), reference.getUTCDate()));
+  if (unit === 'day') date.setUTCDate(date.getUTCDate() + amount);
+  if (unit === 'week') date.setUTCDate(date.getUTCDate() + amount * 7);
+  if (unit === 'month') date.setUTCMonth(date.getUTCMonth() + amount);
+  if (unit === 'year') date.setUTCFullYear(date.getUTCFullYear() + amount);
+  return date;
+}
+
+function granularityOf(unit: Unit): Granularity {
+  return unit === 'year' ? 'year' : unit === 'month' ? 'month' : 'day';
+}
+
+function monthIndex(raw: string) {
+  return MONTHS.findIndex(m => m.startsWith(raw.toLowerCase().replace('.', '').slice(0, 3)));
+}
+
+function fullYear(raw: string) {
+  const year = Number(raw);
+  return raw.length === 2 ? (year < 50 ? 2000 + year : 1900 + year) : year;
+}
+
+function utcDate(year: number, month: number, day: number) {
+  const date = new Date(Date.UTC(year, month, day));
+  return date.getUTCMonth() === month ? date : null;
+}
+
+type Resolver = (match: RegExpExecArray, reference: Date) => { date: Date; granularity: Granularity; kind: TemporalExpression['kind'] } | null;
+
+const TEMPORAL_PATTERNS: Array<[RegExp, Resolver]> = [
+  // 2023-04-12
+  [/\b(\d{4})-(\d{2})-(\d{2})\b/g, m => {
+    const date = utcDate(Number(m[1]), Number(m[2]) - 1, Number(m[3]));
+    return date && { date, granularity: 'day', kind: 'absolute' };
+  }],
+  // 04/12/2023, 4/12/23 (month first)
+  [/\b(\d{1,2})\/(\d{1,2})\/(\d{4}|\d{2})\b/g, m => {
+    const date = utcDate(fullYear(m[3]), Number(m[1]) - 1, Number(m[2]));
+    return date && { date, granularity: 'day', kind: 'absolute' };
+  }],
+  // April 12, 2023
+  [new RegExp(`\\b${MONTH_PATTERN}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`, 'gi'), m => {
+    const date = utcDate(Number(m[3]), monthIndex(m[1]), Number(m[2]));
+    return date && { date, granularity: 'day', kind: 'absolute' };
+  }],
+  // 12 April 2023
+  [new RegExp(`\\b(\\d{1,2})\\s+${MONTH_PATTERN}\\s+(\\d{4})\\b`, 'gi'), m => {
+    const date = utcDate(Number(m[3]), monthIndex(m[2]), Number(m[1]));
+    return date && { date, granularity: 'day', kind: 'absolute' };
+  }],
+  // April 2023, 04/2023
+  [new RegExp(`\\b${MONTH_PATTERN}\\s+(\\d{4})\\b`, 'gi'), m => ({ date: new Date(Date.UTC(Number(m[2]), monthIndex(m[1]), 1)), granularity: 'month', kind: 'absolute' })],
+  [/\b(\d{1,2})\/(\d{4})\b/g, m => {
+    const date = utcDate(Number(m[2]), Number(m[1]) - 1, 1);
+    return date && { date, granularity: 'month', kind: 'absolute' };
+  }],
+  // "in 2021" (a bare number is too ambiguous without the preposition)
+  [/\b(?:in|since|during|from)\s+((?:19|20)\d{2})\b/gi, m => ({ date: new Date(Date.UTC(Number(m[1]), 0, 1)), granularity: 'year', kind: 'absolute' })],
+  // 3 weeks ago, two years prior
+  [new RegExp(`\\b${QUANTITY}\\s+${UNIT}\\s+(?:ago|prior|earlier|before)\\b`, 'gi'), (m, ref) => ({ date: shift(ref, -quantity(m[1]), unitOf(m[2])), granularity: granularityOf(unitOf(m[2])), kind: 'relative' })],
+  // in 3 months, 6 weeks from now
+  [new RegExp(`\\bin\\s+${QUANTITY}\\s+${UNIT}\\b|\\b${QUANTITY}\\s+${UNIT}\\s+from now\\b`, 'gi'), (m, ref) => {
+    const unit = unitOf(m[2] ?? m[4]);
+    return { date: shift(ref, quantity(m[1] ?? m[3]), unit), granularity: granularityOf(unit), kind: 'relative' };
+  }],
+  // 24 months post-treatment: the statement is made at the reference date
+  [new RegExp(`\\b(?:at\\s+)?${QUANTITY}\\s+${UNIT}\\s+(?:post-?|after\\s+)[a-z-]+`, 'gi'), (_m, ref) => ({ date: ref, granularity: 'day', kind: 'relative' })],
+  // next week, last month, this year
+  [/\b(next|last|this|past)\s+(week|month|year)\b/gi, (m, ref) => {
+    const unit = unitOf(m[2]);
+    const amount = m[1].toLowerCase() === 'next' ? 1 : m[1].toLowerCase() === 'this' ? 0 : -1;
+    return { date: shift(ref, amount, unit), granularity: granularityOf(unit), kind: 'relative' };
+  }],
+  [/\b(yesterday|today|tomorrow|currently|now|at present|at this time)\b/gi, (m, ref) => {
+    const word = m[1].toLowerCase();
+    return { date: shift(ref, word === 'yesterday' ? -1 : word === 'tomorrow' ? 1 : 0, 'day'), granularity: 'day', kind: 'relative' };
+  }],
+];
+
+// "3 weeks later" counts from the previous date in the text, not from the reference date
+const CHAINED_PATTERN = new RegExp(`\\b${QUANTITY}\\s+${UNIT}\\s+(?:later|afterwards|after that)\\b`, 'gi');
+
+export function normalizeTemporal(text: string, reference: Date): TemporalExpression[] {
+  const found: TemporalExpression[] = [];
+
+  for (const [pattern, resolve] of TEMPORAL_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      // Patterns are ordered most specific first; a span already claimed is skipped
+      if (found.some(f => start < f.end && end > f.start)) continue;
+      const resolved = resolve(match as RegExpExecArray, reference);
+      if (!resolved) continue;
+      found.push({ text: match[0], start, end, value: toISO(resolved.date), granularity: resolved.granularity, kind: resolved.kind });
+    }
+  }
+
+  for (const match of text.matchAll(CHAINED_PATTERN)) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    if (found.some(f => start < f.end && end > f.start)) continue;
+    const anchor = found.filter(f => f.end <= start).sort((a, b) => b.end - a.end)[0];
+    const unit = unitOf(match[2]);
+    const date = shift(anchor ? new Date(`${anchor.value}T00:00:00Z`) : reference, quantity(match[1]), unit);
+    found.push({ text: match[0], start, end, value: toISO(date), granularity: granularityOf(unit), kind: 'relative' });
+  }
+
+  return found.sort((a, b) => a.start - b.start);
+}
+
+function sentenceBounds(text: string, position: number) {
+  const before = text.slice(0, position).search(/(?:[.!?]\s|\n)(?:(?![.!?]\s|\n)[\s\S])*$/);
+  const start = before === -1 ? 0 : before + 1;
+  const after = text.slice(position).search(/[.!?](?=\s|$)|\n/);
+  return { start, end: after === -1 ? text.length : position + after };
+}
+
+// "24 months post-treatment" -> an implied treatment event 24 months before the reference date
+function impliedEvents(text: string, reference: Date): TimelineEvent[] {
+  const pattern = new RegExp(`\\b${QUANTITY}\\s+${UNIT}\\s+(?:post-?|after\\s+)([a-z]+)`, 'gi');
+  const events: TimelineEvent[] = [];
+  for (const match of text.matchAll(pattern)) {
+    const category = IMPLIED_CATEGORIES[match[3].toLowerCase()];
+    if (!category) continue;
+    const unit = unitOf(match[2]);
+    const start = match.index ?? 0;
+    const temporal: TemporalExpression = {
+      text: match[0],
+      start,
+      end: start + match[0].length,
+      value: toISO(shift(reference, -quantity(match[1]), unit)),
+      granularity: granularityOf(unit),
+      kind: 'relative',
+    };
+    events.push({ category, text: match[3], start: temporal.start, end: temporal.end, date: temporal.value, granularity: temporal.granularity, temporal, implied: true });
+  }
+  return events;
+}
+
+export function extractTimelineEvents(text: string, reference: Date): TimelineEvent[] {
+  const expressions = normalizeTemporal(text, reference);
+  const events: TimelineEvent[] = [];
+
+  for (const [category, pattern] of EVENT_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      if (events.some(e => start < e.end && end > e.start)) continue;
+
+      const sentence = sentenceBounds(text, start);
+      const temporal = expressions
+        .filter(t => t.start >= sentence.start && t.end <= sentence.end)
+        .sort((a, b) => Math.abs(a.start - start) - Math.abs(b.start - start))[0] ?? null;
+
+      events.push({
+        category,
+        text: match[0],
+        start,
+        end,
+        date: temporal?.value ?? null,
+        granularity: temporal?.granularity ?? null,
+        temporal,
+      });
+    }
+  }
+
+  return [...events, ...impliedEvents(text, reference)].sort((a, b) => a.start - b.start);
+}
@@ -2,7 +2,6 @@
  * Utility functions for the Clinical NLP application
  */
 
-// Entity type colors for visualization
 // Entity type colors for visualization
 export const ENTITY_COLORS: Record<string, string> = {
   // Original Specific Tags
@@ -33,6 +32,29 @@ export const ENTITY_COLORS: Record<string, string> = {
   MEDICATION: 'bg-cyan-100 text-cyan-800 border-cyan-300',
   AGE: 'bg-pink-100 text-pink-800 border-pink-300',
   GENDER: 'bg-rose-100 text-rose-800 border-rose-300',
+
+  // Clinical dataset schema (projected via src/lib/labels.ts)
+  SIZE: 'bg-blue-100 text-blue-800 border-blue-300',
+  TNM_STAGE: 'bg-orange-100 text-orange-800 border-orange-300',
+  BIOMARKER: 'bg-green-50 text-green-800 border-green-200',
+  RESULT: 'bg-cyan-50 text-cyan-800 border-cyan-200',
+  DIAGNOSIS: 'bg-purple-100 text-purple-800 border-purple-300',
+  CO_MORBIDITY: 'bg-fuchsia-100 text-fuchsia-800 border-fuchsia-300',
+  SYMPTOM: 'bg-red-100 text-red-800 border-red-300',
+  TEST: 'bg-sky-100 text-sky-800 border-sky-300',
+  MODALITY: 'bg-sky-50 text-sky-800 border-sky-200',
+  PROCEDURE: 'bg-emerald-100 text-emerald-800 border-emerald-300',
+  CHEMOTHERAPY: 'bg-lime-100 text-lime-800 border-lime-300',
+  THERAPY_TYPE: 'bg-green-100 text-green-800 border-green-300',
+  DOSAGE: 'bg-teal-50 text-teal-800 border-teal-200',
+  FREQUENCY: 'bg-teal-50 text-teal-700 border-teal-200',
+  DURATION: 'bg-slate-100 text-slate-800 border-slate-300',
+  LOCATION: 'bg-rose-100 text-rose-800 border-rose-300',
+  LATERALITY: 'bg-rose-50 text-rose-700 border-rose-200',
+  CLOCK_POSITION: 'bg-rose-50 text-rose-800 border-rose-200',
+  DATE: 'bg-gray-100 text-gray-800 border-gray-300',
+  FAMILY_HISTORY: 'bg-purple-100 text-purple-800 border-purple-300',
+  OUTCOME: 'bg-indigo-50 text-indigo-800 border-indigo-200',
 };
 
 // Format entity type for display
@@ -48,6 +70,26 @@ export function getEntityColor(type: string): string {
   return ENTITY_COLORS[type] || 'bg-gray-100 text-gray-800 border-gray-300';
 }
 
+// Assertion status the edge function attaches to each entity (assertion.ts)
+export type AssertionStatus = 'present' | 'negated' | 'possible' | 'hypothetical' | 'family';
+
+export const ASSERTION_LABELS: Record<AssertionStatus, string> = {
+  present: 'Present',
+  negated: 'Negated',
+  possible: 'Possible',
+  hypothetical: 'Hypothetical',
+  family: 'Family history',
+};
+
+// Extra classes layered on the entity color; present entities keep the plain style
+export const ASSERTION_STYLES: Record<AssertionStatus, string> = {
+  present: '',
+  negated: 'line-through opacity-60',
+  possible: 'border-dashed',
+  hypothetical: 'border-dotted italic',
+  family: 'underline decoration-dotted',
+};
+
 // Export data as JSON
 export function exportAsJSON(data: unknown, filename: string) {
   const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
@@ -126,8 +168,11 @@ export function calculateCompletenessScore(entities: Array<{ type: string }>) {
 }
 
 // Generate automated insights
-export function generateInsights(entities: Array<{ type: string; confidence: number }>) {
+export function generateInsights(allEntities: Array<{ type: string; confidence: number; assertion?: AssertionStatus }>) {
   const insights: string[] = [];
+  // "denies fever" must not count as a documented symptom
+  const entities = allEntities.filter(e => e.assertion !== 'negated');
+  const negatedCount = allEntities.length - entities.length;
   const entityTypes = new Set(entities.map(e => e.type));
   const avgConfidence = entities.length > 0
     ? entities.reduce((sum, e) => sum + e.confidence, 0) / entities.length
@@ -167,6 +212,10 @@ export function generateInsights(entities: Array<{ type: string; confidence: num
     insights.push('⚠ Low confidence extraction (<70%)');
   }
 
+  if (negatedCount > 0) {
+    insights.push(`○ ${negatedCount} negated finding${negatedCount === 1 ? '' : 's'} excluded`);
+  }
+
   return insights;
 }
 
@@ -0,0 +1,504 @@
+/**
+ * Request / response contract between the client (src/lib/api.ts) and the
+ * clinical-nlp-analysis edge function.
+ *
+ * Requests are a union discriminated by `type`. Every response is an
+ * envelope stamped with CONTRACT_VERSION:
+ *   { success: true, version, type, data }
+ *   { success: false, version, error: { code, message, details?, retryAfter? } }
+ * The edge function checks requests with parseAnalysisRequest() and the
+ * client checks responses with parseAnalysisResponse(), so a field that
+ * changes shape on one side is reported with its path instead of rendering
+ * broken data. Bump CONTRACT_VERSION for changes that break older clients.
+ *
+ * No imports and no Deno / DOM APIs: the Deno function and the Vite app both
+ * compile this file.
+ */
+
+export const CONTRACT_VERSION = 1;
+
+export const ANALYSIS_TYPES = ["ner", "summarization", "qa", "comparison"] as const;
+export type AnalysisType = typeof ANALYSIS_TYPES[number];
+
+export const ASSERTION_STATUSES = ["present", "negated", "possible", "hypothetical", "family"] as const;
+export type AssertionStatus = typeof ASSERTION_STATUSES[number];
+
+// Section types produced by the segmenter (clinical-nlp-analysis/sections.ts)
+export const SECTION_TYPES = [
+  "history", "specimen", "gross", "microscopic", "findings", "diagnosis", "impression",
+  "biomarkers", "medications", "plan", "other", "preamble", "body",
+] as const;
+export type SectionType = typeof SECTION_TYPES[number];
+
+// Vocabularies bundled with the edge function (clinical-nlp-analysis/terminology.ts)
+export const CODE_SYSTEMS = ["SNOMED CT", "RxNorm", "ICD-O-3"] as const;
+export type CodeSystem = typeof CODE_SYSTEMS[number];
+
+// De-identification modes of the client (src/lib/deidentify.ts)
+export const DEIDENTIFICATION_MODES = ["redact", "mask", "surrogate"] as const;
+export type DeidentificationMode = typeof DEIDENTIFICATION_MODES[number];
+
+// --- Requests ---
+
+interface RequestBase {
+  // How the client scrubbed `text` before sending it. Only de-identified
+  // requests are answered from / stored in the result cache (cache.ts)
+  deidentification?: DeidentificationMode;
+  // Project the caller works in; recorded with the request in the audit log (audit.ts)
+  projectId?: string;
+}
+
+export interface NERRequest extends RequestBase {
+  type: "ner";
+  text: string;
+  model: string;
+  confidenceThreshold?: number;
+  // Run the model on text with abbreviations expanded (see abbreviations.ts)
+  expandAbbreviations?: boolean;
+}
+
+export interface SummarizationRequest extends RequestBase {
+  type: "summarization";
+  text: string;
+  model: string;
+  // Summarize each section separately (see sections.ts)
+  bySection?: boolean;
+  expandAbbreviations?: boolean;
+}
+
+export interface QARequest extends RequestBase {
+  type: "qa";
+  text: string;
+  question: string;
+  model: string;
+  // Restrict the context to sections of this type, e.g. "plan"
+  section?: SectionType;
+  expandAbbreviations?: boolean;
+}
+
+export interface ComparisonRequest extends RequestBase {
+  type: "comparison";
+  text: string;
+}
+
+export type AnalysisRequest = NERRequest | SummarizationRequest | QARequest | ComparisonRequest;
+
+export type RequestOf<T extends AnalysisType> = Extract<AnalysisRequest, { type: T }>;
+
+// --- Results ---
+
+// Set on every result the function returns; `hit` when it came from the result cache
+export interface CacheInfo {
+  hit: boolean;
+  // Content hash of the normalized text, task, model and parameters
+  key: string;
+  // When the result was computed
+  storedAt: string;
+}
+
+export interface RelationArgument {
+  text: string;
+  start: number;
+  end: number;
+  // Linked from a model entity or found by pattern in the drug's clause
+  source: "ner" | "pattern";
+}
+
+export interface MedicationRelation {
+  drug: string;
+  start: number;
+  end: number;
+  confidence: number;
+  assertion?: AssertionStatus;
+  dose: RelationArgument | null;
+  route: RelationArgument | null;
+  frequency: RelationArgument | null;
+  duration: RelationArgument | null;
+}
+
+export interface SectionInfo {
+  type: SectionType;
+  title: string | null;
+  start: number;
+  end: number;
+}
+
+export interface ConceptMatch {
+  system: CodeSystem;
+  code: string;
+  display: string;
+  match: "exact" | "synonym" | "fuzzy";
+  score: number;
+}
+
+// A known abbreviation and its expansion in context (clinical-nlp-analysis/abbreviations.ts)
+export interface Abbreviation {
+  abbreviation: string;
+  expansion: string;
+  start: number;
+  end: number;
+}
+
+export interface NEREntity {
+  text: string;
+  type: string;
+  confidence: number;
+  start: number;
+  end: number;
+  assertion?: AssertionStatus;
+  // Phrase that set the assertion, e.g. "denies"
+  assertionTrigger?: string;
+  section?: SectionType;
+  // Null when the text matched no concept, or the type is not normalized (dates, doses...)
+  concept?: ConceptMatch | null;
+}
+
+export interface NERResult {
+  entities: NEREntity[];
+  entityCount: number;
+  avgConfidence: number;
+  entityTypes: string[];
+  negatedCount?: number;
+  medications?: MedicationRelation[];
+  sections?: SectionInfo[];
+  abbreviations?: Abbreviation[];
+  // True when the model ran on text with abbreviations expanded
+  abbreviationsExpanded?: boolean;
+  // Number of overlapping windows the text was split into (1 = single pass)
+  windowCount?: number;
+  // Display name and Hugging Face ID of the model that actually ran
+  model: string;
+  modelId: string;
+  cache?: CacheInfo;
+}
+
+export interface SummarizationResult {
+  summary: string;
+  originalLength: number;
+  summaryLength: number;
+  originalWords: number;
+  summaryWords: number;
+  compressionRatio: string;
+  model: string;
+  modelId: string;
+  // 'map-reduce' when the text was summarized chunk by chunk, then summarized again;
+  // 'by-section' when each section was summarized on its own
+  strategy?: "single" | "map-reduce" | "by-section";
+  chunkCount?: number;
+  totalChunks?: number;
+  // Per-section summaries; short sections are kept verbatim (summarized: false)
+  sections?: Array<{ type: SectionType; title: string | null; summary: string; summarized: boolean }>;
+  // How much of the input actually reached the model (ratio 1 = everything)
+  coverage?: {
+    ratio: number;
+    coveredChars: number;
+    totalChars: number;
+  };
+  cache?: CacheInfo;
+}
+
+export interface QAResult {
+  question: string;
+  answer: string;
+  confidence: number;
+  context: string;
+  // Offsets of the answer in the text sent, absent when no answer was found
+  start?: number;
+  end?: number;
+  // Section type the answer was restricted to, null for the whole note
+  section?: SectionType | null;
+  model: string;
+  modelId: string;
+  cache?: CacheInfo;
+}
+
+export interface ComparisonResult {
+  models: Array<{
+    model: string;
+    modelId: string;
+    status: "ok" | "error";
+    latencyMs: number;
+    error?: string;
+    entityCount: number;
+    avgConfidence: number;
+    entities: NEREntity[];
+    entityTypes: string[];
+  }>;
+  recommendation: {
+    model: string;
+    reason: string;
+  };
+  cache?: CacheInfo;
+}
+
+export interface AnalysisResults {
+  ner: NERResult;
+  summarization: SummarizationResult;
+  qa: QAResult;
+  comparison: ComparisonResult;
+}
+
+// --- Envelopes ---
+
+export type ErrorCode =
+  | "INVALID_INPUT"
+  // The session token was rejected by Supabase Auth
+  | "UNAUTHORIZED"
+  // The model is cold-starting on the inference backend
+  | "MODEL_LOADING"
+  | "UPSTREAM_TIMEOUT"
+  | "UPSTREAM_ERROR"
+  | "RATE_LIMITED"
+  // Missing API key or bad provider settings on the function
+  | "CONFIG_MISSING"
+  | "INTERNAL_ERROR";
+
+// Transient failures: the same request may succeed after `retryAfter` seconds
+export const RETRYABLE_ERRORS: readonly ErrorCode[] = ["MODEL_LOADING", "UPSTREAM_TIMEOUT", "RATE_LIMITED"];
+
+export interface AnalysisSuccess<T extends AnalysisType = AnalysisType> {
+  success: true;
+  version: number;
+  type: T;
+  data: AnalysisResults[T];
+}
+
+export interface AnalysisError {
+  success: false;
+  version: number;
+  error: {
+    code: ErrorCode;
+    message: string;
+    // Validation problems, one per offending field
+    details?: string[];
+    // Seconds to wait before retrying (retryable codes only)
+    retryAfter?: number;
+  };
+}
+
+export type AnalysisResponse<T extends AnalysisType = AnalysisType> = AnalysisSuccess<T> | AnalysisError;
+
+export function successEnvelope<T extends AnalysisType>(type: T, data: AnalysisResults[T]): AnalysisSuccess<T> {
+  return { success: true, version: CONTRACT_VERSION, type, data };
+}
+
+export function errorEnvelope(
+  code: ErrorCode,
+  message: string,
+  extra: { details?: string[]; retryAfter?: number } = {},
+): AnalysisError {
+  return { success: false, version: CONTRACT_VERSION, error: { code, message, ...extra } };
+}
+
+// --- Validation ---
+
+// A validator returns the problems found at `path`; none means the value is valid
+type Validator = (value: unknown, path: string) => string[];
+
+export type Parsed<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const string: Validator = (value, path) => typeof value === "string" ? [] : [`${path} must be a string`];
+const nonEmptyString: Validator = (value, path) =>
+  typeof value === "string" && value.trim() !== "" ? [] : [`${path} must be a non-empty string`];
+const number: Validator = (value, path) =>
+  typeof value === "number" && Number.isFinite(value) ? [] : [`${path} must be a number`];
+const boolean: Validator = (value, path) => typeof value === "boolean" ? [] : [`${path} must be a boolean`];
+
+function between(min: number, max: number): Validator {
+  return (value, path) =>
+    typeof value === "number" && value >= min && value <= max ? [] : [`${path} must be a number from ${min} to ${max}`];
+}
+
+function oneOf(values: readonly string[]): Validator {
+  return (value, path) =>
+    typeof value === "string" && values.includes(value) ? [] : [`${path} must be one of ${values.join(", ")}`];
+}
+
+function optional(validator: Validator): Validator {
+  return (value, path) => value === undefined ? [] : validator(value, path);
+}
+
+function nullable(validator: Validator): Validator {
+  return (value, path) => value === null ? [] : validator(value, path);
+}
+
+function arrayOf(validator: Validator): Validator {
+  return (value, path) =>
+    Array.isArray(value) ? value.flatMap((item, i) => validator(item, `${path}[${i}]`)) : [`${path} must be an array`];
+}
+
+// Checks the listed fields only; extra fields are allowed so either side can add optional data first
+function object(shape: Record<string, Validator>): Validator {
+  return (value, path) => {
+    if (!isRecord(value)) return [`${path} must be an object`];
+    return Object.entries(shape).flatMap(([key, validator]) => validator(value[key], `${path}.${key}`));
+  };
+}
+
+const deidentification = optional(oneOf(DEIDENTIFICATION_MODES));
+const projectId = optional(nonEmptyString);
+
+const REQUEST_SCHEMAS: Record<AnalysisType, Validator> = {
+  ner: object({
+    text: nonEmptyString,
+    model: string,
+    confidenceThreshold: optional(between(0, 1)),
+    expandAbbreviations: optional(boolean),
+    deidentification,
+    projectId,
+  }),
+  summarization: object({
+    text: nonEmptyString,
+    model: string,
+    bySection: optional(boolean),
+    expandAbbreviations: optional(boolean),
+    deidentification,
+    projectId,
+  }),
+  qa: object({
+    text: nonEmptyString,
+    question: nonEmptyString,
+    model: string,
+    section: optional(oneOf(SECTION_TYPES)),
+    expandAbbreviations: optional(boolean),
+    deidentification,
+    projectId,
+  }),
+  comparison: object({
+    text: nonEmptyString,
+    deidentification,
+    projectId,
+  }),
+};
+
+const span = { start: number, end: number };
+
+const relationArgument = nullable(object({ text: string, ...span, source: oneOf(["ner", "pattern"]) }));
+
+const entity = object({
+  text: string,
+  type: string,
+  confidence: number,
+  ...span,
+  assertion: optional(oneOf(ASSERTION_STATUSES)),
+  assertionTrigger: optional(string),
+  section: optional(oneOf(SECTION_TYPES)),
+  concept: optional(nullable(object({
+    system: oneOf(CODE_SYSTEMS),
+    code: string,
+    display: string,
+    match: oneOf(["exact", "synonym", "fuzzy"]),
+    score: number,
+  }))),
+});
+
+const modelInfo = { model: string, modelId: string };
+
+const cache = optional(object({ hit: boolean, key: string, storedAt: string }));
+
+const RESULT_SCHEMAS: Record<AnalysisType, Validator> = {
+  ner: object({
+    entities: arrayOf(entity),
+    entityCount: number,
+    avgConfidence: number,
+    entityTypes: arrayOf(string),
+    negatedCount: optional(number),
+    medications: optional(arrayOf(object({
+      drug: string,
+      ...span,
+      confidence: number,
+      assertion: optional(oneOf(ASSERTION_STATUSES)),
+      dose: relationArgument,
+      route: relationArgument,
+      frequency: relationArgument,
+      duration: relationArgument,
+    }))),
+    sections: optional(arrayOf(object({ type: oneOf(SECTION_TYPES), title: nullable(string), ...span }))),
+    abbreviations: optional(arrayOf(object({ abbreviation: string, expansion: string, ...span }))),
+    abbreviationsExpanded: optional(boolean),
+    windowCount: optional(number),
+    ...modelInfo,
+    cache,
+  }),
+  summarization: object({
+    summary: string,
+    originalLength: number,
+    summaryLength: number,
+    originalWords: number,
+    summaryWords: number,
+    compressionRatio: string,
+    ...modelInfo,
+    strategy: optional(oneOf(["single", "map-reduce", "by-section"])),
+    chunkCount: optional(number),
+    totalChunks: optional(number),
+    sections: optional(arrayOf(object({
+      type: oneOf(SECTION_TYPES),
+      title: nullable(string),
+      summary: string,
+      summarized: boolean,
+    }))),
+    coverage: optional(object({ ratio: number, coveredChars: number, totalChars: number })),
+    cache,
+  }),
+  qa: object({
+    question: string,
+    answer: string,
+    confidence: number,
+    context: string,
+    start: optional(number),
+    end: optional(number),
+    section: optional(nullable(oneOf(SECTION_TYPES))),
+    ...modelInfo,
+    cache,
+  }),
+  comparison: object({
+    models: arrayOf(object({
+      ...modelInfo,
+      status: oneOf(["ok", "error"]),
+      latencyMs: number,
+      error: optional(string),
+      entityCount: number,
+      avgConfidence: number,
+      entities: arrayOf(entity),
+      entityTypes: arrayOf(string),
+    })),
+    recommendation: object({ model: string, reason: string }),
+    cache,
+  }),
+};
+
+const errorSchema = object({
+  code: string,
+  message: string,
+  details: optional(arrayOf(string)),
+  retryAfter: optional(number),
+});
+
+export function parseAnalysisRequest(body: unknown): Parsed<AnalysisRequest> {
+  if (!isRecord(body)) return { ok: false, errors: ["request body must be a JSON object"] };
+  const typeErrors = oneOf(ANALYSIS_TYPES)(body.type, "type");
+  if (typeErrors.length > 0) return { ok: false, errors: typeErrors };
+
+  const errors = REQUEST_SCHEMAS[body.type as AnalysisType](body, "request");
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: body as unknown as AnalysisRequest };
+}
+
+export function parseAnalysisResponse<T extends AnalysisType>(type: T, body: unknown): Parsed<AnalysisResponse<T>> {
+  if (!isRecord(body)) return { ok: false, errors: ["response body must be a JSON object"] };
+  if (body.version !== CONTRACT_VERSION) {
+    return {
+      ok: false,
+      errors: [`response has contract version ${String(body.version)}, expected ${CONTRACT_VERSION}; the app and the edge function are out of sync`],
+    };
+  }
+
+  const errors = body.success === true
+    ? [...oneOf([type])(body.type, "response.type"), ...RESULT_SCHEMAS[type](body.data, "response.data")]
+    : body.success === false
+      ? errorSchema(body.error, "response.error")
+      : ["response.success must be a boolean"];
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: body as unknown as AnalysisResponse<T> };
+}
@@ -0,0 +1,167 @@
+/**
+ * Clinical abbreviation expansion.
+ *
+ * A local dictionary of abbreviations common in breast oncology notes. Some
+ * are ambiguous ("ER" is estrogen receptor next to "PR"/"positive" but
+ * emergency room next to "presented to"), so an entry can list several
+ * expansions, each with a context pattern tested against the surrounding
+ * text; the first one that matches wins. Ambiguous abbreviations with no
+ * matching context are left alone.
+ *
+ * expandAbbreviations() returns the rewritten text plus the list of
+ * expansions, and toOriginalOffset() maps offsets in the rewritten text back
+ * to the original, so model output on expanded text can be shown on the
+ * text the user entered.
+ */
+
+interface ExpansionRule {
+  expansion: string;
+  // Tested against up to 60 characters on either side, within the same sentence
+  context?: RegExp;
+}
+
+interface DictionaryEntry {
+  abbreviation: string;
+  // Uppercase abbreviations match case-sensitively so "PR" does not hit "pr"
+  caseSensitive?: boolean;
+  rules: ExpansionRule[];
+}
+
+export interface Expansion {
+  abbreviation: string;
+  expansion: string;
+  // Offsets in the original text
+  start: number;
+  end: number;
+  // Offsets in the expanded text
+  expandedStart: number;
+  expandedEnd: number;
+}
+
+export interface ExpandedText {
+  text: string;
+  expansions: Expansion[];
+}
+
+const CONTEXT_WINDOW = 60;
+
+const DICTIONARY: DictionaryEntry[] = [
+  { abbreviation: "IDC", caseSensitive: true, rules: [{ expansion: "invasive ductal carcinoma" }] },
+  { abbreviation: "ILC", caseSensitive: true, rules: [{ expansion: "invasive lobular carcinoma" }] },
+  { abbreviation: "DCIS", caseSensitive: true, rules: [{ expansion: "ductal carcinoma in situ" }] },
+  { abbreviation: "LCIS", caseSensitive: true, rules: [{ expansion: "lobular carcinoma in situ" }] },
+  { abbreviation: "TNBC", caseSensitive: true, rules: [{ expansion: "triple-negative breast cancer" }] },
+  { abbreviation: "LVI", caseSensitive: true, rules: [{ expansion: "lymphovascular invasion" }] },
+  { abbreviation: "SLNB", caseSensitive: true, rules: [{ expansion: "sentinel lymph node biopsy" }] },
+  { abbreviation: "ALND", caseSensitive: true, rules: [{ expansion: "axillary lymph node dissection" }] },
+  { abbreviation: "FNA", caseSensitive: true, rules: [{ expansion: "fine needle aspiration" }] },
+  { abbreviation: "CNB", caseSensitive: true, rules: [{ expansion: "core needle biopsy" }] },
+  { abbreviation: "BCS", caseSensitive: true, rules: [{ expansion: "breast-conserving surgery" }] },
+  { abbreviation: "MRM", caseSensitive: true, rules: [{ expansion: "modified radical mastectomy" }] },
+  { abbreviation: "UOQ", caseSensitive: true, rules: [{ expansion: "upper outer quadrant" }] },
+  { abbreviation: "UIQ", caseSensitive: true, rules: [{ expansion: "upper inner quadrant" }] },
+  { abbreviation: "LOQ", caseSensitive: true, rules: [{ expansion: "lower outer quadrant" }] },
+  { abbreviation: "LIQ", caseSensitive: true, rules: [{ expansion: "lower inner quadrant" }] },
+  { abbreviation: "AC-T", caseSensitive: true, rules: [{ expansion: "doxorubicin and cyclophosphamide followed by paclitaxel" }] },
+  { abbreviation: "TCH", caseSensitive: true, rules: [{ expansion: "docetaxel, carboplatin and trastuzumab" }] },
+  { abbreviation: "pCR", caseSensitive: true, rules: [{ expansion: "pathologic complete response" }] },
+  { abbreviation: "NED", caseSensitive: true, rules: [{ expansion: "no evidence of disease" }] },
+  { abbreviation: "XRT", caseSensitive: true, rules: [{ expansion: "radiation therapy" }] },
+  { abbreviation: "RT", caseSensitive: true, rules: [{ expansion: "radiation therapy", context: /radiat|adjuvant|gy\b|fraction|boost|chemo|surgery|lumpectomy|mastectomy/i }] },
+  {
+    abbreviation: "ER",
+    caseSensitive: true,
+    rules: [
+      { expansion: "estrogen receptor", context: /\b(?:PR|PgR|HER-?2)\b|positive|negative|\bpos\b|\bneg\b|\d+\s?%|allred|receptor|stain/i },
+      { expansion: "emergency room", context: /present(?:ed|s)? to|seen in|visit|admitted|brought|triage/i },
+    ],
+  },
+  {
+    abbreviation: "PR",
+    caseSensitive: true,
+    rules: [
+      { expansion: "partial response", context: /response|RECIST|\bCR\b|\bSD\b|\bPD\b|restaging|imaging|scan|cycles/i },
+      { expansion: "progesterone receptor", context: /\b(?:ER|HER-?2)\b|positive|negative|\bpos\b|\bneg\b|\d+\s?%|allred|receptor|stain/i },
+    ],
+  },
+  { abbreviation: "CR", caseSensitive: true, rules: [{ expansion: "complete response", context: /response|RECIST|\bPR\b|restaging|imaging/ }] },
+  { abbreviation: "BID", rules: [{ expansion: "twice daily" }] },
+  { abbreviation: "TID", rules: [{ expansion: "three times daily" }] },
+  { abbreviation: "QD", rules: [{ expansion: "daily" }] },
+  { abbreviation: "PO", caseSensitive: true, rules: [{ expansion: "by mouth" }] },
+  { abbreviation: "s/p", rules: [{ expansion: "status post" }] },
+  { abbreviation: "f/u", rules: [{ expansion: "follow-up" }] },
+  { abbreviation: "y/o", rules: [{ expansion: "year-old" }] },
+  { abbreviation: "hx", rules: [{ expansion: "history" }] },
+  { abbreviation: "dx", rules: [{ expansion: "diagnosis" }] },
+  { abbreviation: "tx", rules: [{ expansion: "treatment" }] },
+  { abbreviation: "bx", rules: [{ expansion: "biopsy" }] },
+  { abbreviation: "mets", rules: [{ expansion: "metastases" }] },
+];
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
+
+const MATCHERS = DICTIONARY.map((entry) => ({
+  entry,
+  // Not part of a longer word ("AC-T" not inside "AC-TH"); "ER+/PR+" still matches both
+  pattern: new RegExp(`(?<![\\w-])${escapeRegExp(entry.abbreviation)}(?![\\w])`, entry.caseSensitive ? "g" : "gi"),
+}));
+
+function chooseExpansion(entry: DictionaryEntry, text: string, start: number, end: number) {
+  const before = text.slice(Math.max(0, start - CONTEXT_WINDOW), start).split(/[.!?]\s/).pop() ?? "";
+  const after = text.slice(end, end + CONTEXT_WINDOW).split(/[.!?](?:\s|$)/)[0];
+  const context = `${before} ${after}`;
+  const rule = entry.rules.find((r) => !r.context || r.context.test(context));
+  if (!rule) return null;
+
+  // Already spelled out nearby, e.g. "invasive ductal carcinoma (IDC)"
+  const nearby = text.slice(Math.max(0, start - CONTEXT_WINDOW), end + CONTEXT_WINDOW).toLowerCase();
+  if (nearby.includes(rule.expansion.toLowerCase())) return null;
+
+  return rule.expansion;
+}
+
+export function findAbbreviations(text: string): Array<Omit<Expansion, "expandedStart" | "expandedEnd">> {
+  const found: Array<Omit<Expansion, "expandedStart" | "expandedEnd">> = [];
+  for (const { entry, pattern } of MATCHERS) {
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      if (found.some((f) => start < f.end && end > f.start)) continue;
+      const expansion = chooseExpansion(entry, text, start, end);
+      if (expansion) found.push({ abbreviation: match[0], expansion, start, end });
+    }
+  }
+  return found.sort((a, b) => a.start - b.start);
+}
+
+export function expandAbbreviations(text: string): ExpandedText {
+  const expansions: Expansion[] = [];
+  let expanded = "";
+  let cursor = 0;
+
+  for (const found of findAbbreviations(text)) {
+    expanded += text.slice(cursor, found.start);
+    const expandedStart = expanded.length;
+    expanded += found.expansion;
+    expansions.push({ ...found, expandedStart, expandedEnd: expanded.length });
+    cursor = found.end;
+  }
+  expanded += text.slice(cursor);
+
+  return { text: expanded, expansions };
+}
+
+// Map an offset in the expanded text back to the original; offsets inside an
+// expansion snap to the start or end of the abbreviation it replaced
+export function toOriginalOffset(expansions: Expansion[], offset: number, side: "start" | "end"): number {
+  let delta = 0;
+  for (const e of expansions) {
+    if (offset <= e.expandedStart) break;
+    if (offset < e.expandedEnd) return side === "start" ? e.start : e.end;
+    delta += (e.expandedEnd - e.expandedStart) - (e.end - e.start);
+  }
+  return offset - delta;
+}
@@ -0,0 +1,145 @@
+/**
+ * NegEx/ConText-style assertion classification for extracted entities.
+ *
+ * NER alone gives the same result for "Patient denies fever" and "Patient has
+ * fever". Here each entity gets an assertion status from trigger phrases in the
+ * same sentence:
+ * - pre-triggers ("no", "denies", "possible") apply to entities after them
+ * - post-triggers ("was ruled out", "cannot be excluded") to entities before them
+ * Scope ends at a termination term ("but", "however"...) or after MAX_SCOPE_WORDS.
+ * Pseudo-triggers ("no change", "not only") look like triggers but are ignored.
+ * When several triggers reach an entity, the closest one wins.
+ */
+
+import { splitSentences } from "./chunking.ts";
+
+export type AssertionStatus = "present" | "negated" | "possible" | "hypothetical" | "family";
+
+interface Trigger {
+  status: Exclude<AssertionStatus, "present">;
+  direction: "pre" | "post";
+  pattern: RegExp;
+}
+
+const MAX_SCOPE_WORDS = 8;
+
+function phrases(words: string[]) {
+  return new RegExp(`\\b(?:${words.join("|")})\\b`, "gi");
+}
+
+const TRIGGERS: Trigger[] = [
+  {
+    status: "negated",
+    direction: "pre",
+    pattern: phrases([
+      "no evidence of", "no signs? of", "negative for", "free of", "absence of", "without", "denie[sd]", "denying",
+      "no", "not", "never", "ruled out", "rules out",
+    ]),
+  },
+  {
+    status: "negated",
+    direction: "post",
+    pattern: phrases([
+      "(?:was|were|is|are|has been|have been) ruled out", "(?:was|were|is|are) negative", "(?:is|are|was|were) absent",
+      "not (?:seen|identified|detected|present|visualized)", "resolved",
+    ]),
+  },
+  {
+    status: "possible",
+    direction: "pre",
+    pattern: phrases([
+      "possible", "possibly", "probable", "probably", "likely", "suspicious for", "suspected", "suspicion of",
+      "concerning for", "cannot rule out", "can't rule out", "rule out", "r/o", "questionable", "may represent",
+      "equivocal for", "differential includes",
+    ]),
+  },
+  {
+    status: "possible",
+    direction: "post",
+    pattern: phrases(["cannot be excluded", "can't be excluded", "(?:is|was) suspected", "(?:is|was) (?:possible|likely|unlikely)"]),
+  },
+  {
+    status: "hypothetical",
+    direction: "pre",
+    pattern: phrases(["if", "should (?:she|he|they|the patient) develop", "return if", "in case of", "risk of", "at risk for", "to prevent", "monitor for"]),
+  },
+  {
+    status: "family",
+    direction: "pre",
+    pattern: phrases([
+      "family history of", "family hx of", "fh of", "mother", "father", "sister", "brother", "aunt", "uncle",
+      "grandmother", "grandfather", "maternal", "paternal", "daughter", "son", "cousin",
+    ]),
+  },
+];
+
+const PSEUDO_TRIGGERS = phrases([
+  "no change", "no significant change", "no increase", "no further", "not only", "not necessarily", "no interval change",
+  "without difficulty", "not certain if", "not certain whether", "gram negative", "no longer",
+]);
+
+const TERMINATION = phrases([
+  "but", "however", "although", "though", "except", "aside from", "apart from", "which", "who", "yet",
+  "secondary to", "because", "presents?", "presented", "reports?", "complains? of", "due to",
+]);
+
+function findAll(pattern: RegExp, text: string) {
+  pattern.lastIndex = 0;
+  const hits: Array<{ start: number; end: number; text: string }> = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    hits.push({ start: match.index, end: match.index + match[0].length, text: match[0] });
+  }
+  return hits;
+}
+
+function wordCount(text: string) {
+  return text.trim() ? text.trim().split(/\s+/).length : 0;
+}
+
+// Whether the gap between a trigger and an entity is still inside the trigger's scope
+function inScope(gap: string) {
+  TERMINATION.lastIndex = 0;
+  return wordCount(gap) <= MAX_SCOPE_WORDS && !TERMINATION.test(gap) && !/[;:]/.test(gap);
+}
+
+export function assertEntities<T extends { start: number; end: number }>(text: string, entities: T[]) {
+  const sentences = splitSentences(text);
+
+  return entities.map((entity) => {
+    const sentence = sentences.find((s) => entity.start >= s.start && entity.start < s.end);
+    if (!sentence) return { ...entity, assertion: "present" as AssertionStatus };
+
+    const pseudo = findAll(PSEUDO_TRIGGERS, sentence.text);
+    let best: { status: AssertionStatus; trigger: string; distance: number } | null = null;
+
+    for (const trigger of TRIGGERS) {
+      for (const hit of findAll(trigger.pattern, sentence.text)) {
+        if (pseudo.some((p) => hit.start < p.end && hit.end > p.start)) continue;
+
+        const triggerStart = sentence.start + hit.start;
+        const triggerEnd = sentence.start + hit.end;
+
+        // A pre-trigger may sit at the start of the entity span itself ("no lymphovascular invasion")
+        let gap: string;
+        if (trigger.direction === "pre" && triggerStart <= entity.start && triggerEnd <= entity.end) {
+          gap = text.slice(triggerEnd, Math.max(triggerEnd, entity.start));
+        } else if (trigger.direction === "post" && triggerStart >= entity.end) {
+          gap = text.slice(entity.end, triggerStart);
+        } else {
+          continue;
+        }
+
+        if (!inScope(gap)) continue;
+        const distance = wordCount(gap);
+        if (!best || distance < best.distance) {
+          best = { status: trigger.status, trigger: hit.text, distance };
+        }
+      }
+    }
+
+    return best
+      ? { ...entity, assertion: best.status, assertionTrigger: best.trigger }
+      : { ...entity, assertion: "present" as AssertionStatus };
+  });
+}
@@ -0,0 +1,129 @@
+/**
+ * Audit log of the clinical-nlp-analysis function.
+ *
+ * Every request whose caller could be identified (auth.ts) is recorded as an
+ * "analyze" event in audit_events (supabase/schema.sql), whether it succeeded,
+ * came from the result cache or failed: the caller, the project named in the
+ * request, the task with its parameters and outcome, and a SHA-256 of the text.
+ * The hash equals content_hash() in the database, so it matches the document
+ * of an analysis the app saved afterwards. Neither the text nor the question
+ * is stored; the question is hashed as well.
+ *
+ * The database stamps the time and the caller's email and drops a project the
+ * caller is not a member of. Saves, deletions, history views and exports are
+ * recorded by the database triggers and the app.
+ *
+ * The sink is picked with AUDIT_LOG:
+ * - postgres (default when SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are set):
+ *   the audit_events table, written with the service role key
+ * - console: one JSON line per event, e.g. for the offline stub
+ * - none: auditing disabled
+ * A failed write is logged and does not fail the request.
+ */
+
+import type { AnalysisRequest, ErrorCode } from "../_shared/contract.ts";
+import { sha256 } from "./cache.ts";
+import { ServiceError } from "./errors.ts";
+
+export interface AuditEvent {
+  actor_id: string | null;
+  action: "analyze";
+  source: "edge_function";
+  project_id: string | null;
+  input_hash: string;
+  parameters: Record<string, unknown>;
+}
+
+export type AuditOutcome = { status: "ok"; cacheHit: boolean } | { status: "error"; errorCode: ErrorCode };
+
+export interface AuditSink {
+  name: string;
+  write(event: AuditEvent): Promise<void>;
+}
+
+export async function analysisEvent(
+  request: AnalysisRequest,
+  userId: string | null,
+  outcome: AuditOutcome,
+): Promise<AuditEvent> {
+  const { text, type, projectId, ...rest } = request;
+  const parameters: Record<string, unknown> = { task: type, ...rest, ...outcome };
+  if ("question" in rest) {
+    delete parameters.question;
+    parameters.questionHash = await sha256(rest.question);
+  }
+  return {
+    actor_id: userId,
+    action: "analyze",
+    source: "edge_function",
+    project_id: projectId ?? null,
+    input_hash: await sha256(text),
+    parameters,
+  };
+}
+
+// Talks to PostgREST directly, like the postgres result cache
+export function createPostgresSink(
+  url = Deno.env.get("SUPABASE_URL"),
+  serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"),
+): AuditSink {
+  if (!url || !serviceKey) {
+    throw new ServiceError("CONFIG_MISSING", "AUDIT_LOG=postgres needs SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY.");
+  }
+  const table = `${url.replace(/\/+$/, "")}/rest/v1/audit_events`;
+
+  return {
+    name: "postgres",
+    async write(event) {
+      const response = await fetch(table, {
+        method: "POST",
+        headers: {
+          apikey: serviceKey,
+          Authorization: `Bearer ${serviceKey}`,
+          "Content-Type": "application/json",
+          Prefer: "return=minimal",
+        },
+        body: JSON.stringify(event),
+      });
+      if (!response.ok) throw new Error(`Audit write failed: ${response.status} ${await response.text()}`);
+    },
+  };
+}
+
+export function createConsoleSink(): AuditSink {
+  return {
+    name: "console",
+    write(event) {
+      console.log(JSON.stringify({ audit: { ...event, occurred_at: new Date().toISOString() } }));
+      return Promise.resolve();
+    },
+  };
+}
+
+export function createAuditSink(kind = Deno.env.get("AUDIT_LOG")): AuditSink | null {
+  const sink = kind?.toLowerCase() ??
+    (Deno.env.get("SUPABASE_URL") && Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ? "postgres" : "console");
+  switch (sink) {
+    case "postgres":
+      return createPostgresSink();
+    case "console":
+      return createConsoleSink();
+    case "none":
+      return null;
+    default:
+      throw new ServiceError("CONFIG_MISSING", `Unknown AUDIT_LOG "${kind}". Use postgres, console or none.`);
+  }
+}
+
+let sink: AuditSink | null | undefined;
+
+// Record one analysis request. Failures, including a misconfigured sink, are logged only.
+export async function recordAnalysis(request: AnalysisRequest, userId: string | null, outcome: AuditOutcome) {
+  try {
+    if (sink === undefined) sink = createAuditSink();
+    if (!sink) return;
+    await sink.write(await analysisEvent(request, userId, outcome));
+  } catch (error) {
+    console.error(`Audit log${sink ? ` (${sink.name})` : ""}:`, error instanceof Error ? error.message : error);
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Caller identity for the clinical-nlp-analysis function.
+ *
+ * The function is deployed with --no-verify-jwt, so the Authorization header
+ * is checked here: signed-in users send their session token, which Supabase
+ * Auth (GoTrue) resolves to their auth.users id. The anon key (scripts,
+ * evaluation, the offline stub) is not a user and yields null, as does a
+ * deployment without SUPABASE_URL / SUPABASE_ANON_KEY. A token Auth rejects
+ * (expired, forged) fails the request with UNAUTHORIZED.
+ */
+
+import { ServiceError } from "./errors.ts";
+
+export async function callerId(req: Request): Promise<string | null> {
+  const url = Deno.env.get("SUPABASE_URL");
+  const anonKey = Deno.env.get("SUPABASE_ANON_KEY");
+  const token = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+  if (!url || !anonKey || !token || token === anonKey) return null;
+
+  let response: Response;
+  try {
+    response = await fetch(`${url.replace(/\/+$/, "")}/auth/v1/user`, {
+      headers: { apikey: anonKey, Authorization: `Bearer ${token}` },
+    });
+  } catch (error) {
+    throw new ServiceError("UPSTREAM_ERROR", `Could not reach Supabase Auth: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!response.ok) {
+    throw new ServiceError("UNAUTHORIZED", "Your session is invalid or has expired. Please sign in again.");
+  }
+  const user = await response.json();
+  return typeof user?.id === "string" ? user.id : null;
+}
@@ -0,0 +1,205 @@
+/**
+ * Result cache for the clinical-nlp-analysis function.
+ *
+ * Results are content-addressed: the key is a SHA-256 of the normalized text,
+ * the task, the model IDs that run (after env overrides) and every parameter
+ * that changes the output, plus CACHE_VERSION. Bump CACHE_VERSION whenever
+ * post-processing changes (span repair, terminology...), which retires every
+ * stored entry at once.
+ *
+ * Only de-identified requests are cached (`deidentification` set by the
+ * client), and the mode is part of the key, so a redacted note never answers
+ * for a surrogate one. The input text itself is never stored.
+ *
+ * Entries belong to the caller (auth.ts): the user id is part of the key and
+ * stored as user_id, so one user's results never answer another's request.
+ * Anon-key callers share the entries without an owner.
+ *
+ * The store is picked with RESULT_CACHE:
+ * - postgres (default when SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are set):
+ *   the analysis_cache table (supabase/schema.sql), shared by all instances.
+ *   Admins invalidate entries with invalidate_analysis_cache() or
+ *   scripts/invalidate_cache.ts.
+ * - memory: per-instance map, lost on cold start
+ * - none: caching disabled
+ * Entries expire after RESULT_CACHE_TTL_HOURS (default one week).
+ */
+
+import type { AnalysisRequest, CacheInfo, DeidentificationMode } from "../_shared/contract.ts";
+import { ServiceError } from "./errors.ts";
+import { getModels, resolveModel } from "./models.ts";
+
+const CACHE_VERSION = 1;
+const DEFAULT_TTL_HOURS = 24 * 7;
+const MAX_MEMORY_ENTRIES = 200;
+
+export interface CacheEntry {
+  key: string;
+  userId: string | null;
+  task: string;
+  modelId: string;
+  deidentification: DeidentificationMode;
+  result: unknown;
+}
+
+export interface ResultCache {
+  name: string;
+  get(key: string): Promise<{ result: unknown; storedAt: string } | null>;
+  set(entry: CacheEntry, expiresAt: Date): Promise<void>;
+}
+
+// Trailing whitespace only: anything else would shift the offsets stored in results
+function normalizeText(text: string) {
+  return text.replace(/\s+$/, "");
+}
+
+export async function sha256(value: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// Model IDs the request will run, so a catalog override (NER_MODEL_...) gets fresh entries
+function modelIdsFor(request: AnalysisRequest) {
+  return request.type === "comparison"
+    ? Object.values(getModels("ner"))
+    : [resolveModel(request.type, request.model).modelId];
+}
+
+export async function cacheKey(request: AnalysisRequest, userId: string | null = null) {
+  const { text, type, deidentification, ...rest } = request;
+  // The model name is covered by its ID; the project and question whitespace don't change the answer
+  const params: Record<string, unknown> = { ...rest };
+  delete params.model;
+  delete params.projectId;
+  if (typeof params.question === "string") params.question = params.question.trim();
+
+  return await sha256(JSON.stringify({
+    version: CACHE_VERSION,
+    owner: userId,
+    type,
+    models: modelIdsFor(request),
+    deidentification,
+    params: Object.fromEntries(Object.entries(params).sort(([a], [b]) => a.localeCompare(b))),
+    text: await sha256(normalizeText(text)),
+  }));
+}
+
+export function createMemoryCache(): ResultCache {
+  const entries = new Map<string, { result: unknown; storedAt: string; expiresAt: number }>();
+  return {
+    name: "memory",
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry || entry.expiresAt < Date.now()) {
+        entries.delete(key);
+        return Promise.resolve(null);
+      }
+      return Promise.resolve({ result: entry.result, storedAt: entry.storedAt });
+    },
+    set(entry, expiresAt) {
+      entries.set(entry.key, { result: entry.result, storedAt: new Date().toISOString(), expiresAt: expiresAt.getTime() });
+      // Map keeps insertion order, so the first key is the oldest
+      if (entries.size > MAX_MEMORY_ENTRIES) entries.delete(entries.keys().next().value!);
+      return Promise.resolve();
+    },
+  };
+}
+
+// Talks to PostgREST directly; the service role key bypasses RLS on analysis_cache
+export function createPostgresCache(
+  url = Deno.env.get("SUPABASE_URL"),
+  serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"),
+): ResultCache {
+  if (!url || !serviceKey) {
+    throw new ServiceError("CONFIG_MISSING", "RESULT_CACHE=postgres needs SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY.");
+  }
+  const table = `${url.replace(/\/+$/, "")}/rest/v1/analysis_cache`;
+  const headers = { apikey: serviceKey, Authorization: `Bearer ${serviceKey}`, "Content-Type": "application/json" };
+
+  return {
+    name: "postgres",
+    async get(key) {
+      const query = new URLSearchParams({
+        key: `eq.${key}`,
+        expires_at: `gt.${new Date().toISOString()}`,
+        select: "result,created_at",
+      });
+      const response = await fetch(`${table}?${query}`, { headers });
+      if (!response.ok) throw new Error(`Cache read failed: ${response.status} ${await response.text()}`);
+      const [row] = await response.json();
+      return row ? { result: row.result, storedAt: row.created_at } : null;
+    },
+    async set(entry, expiresAt) {
+      const response = await fetch(`${table}?on_conflict=key`, {
+        method: "POST",
+        headers: { ...headers, Prefer: "resolution=merge-duplicates,return=minimal" },
+        body: JSON.stringify({
+          key: entry.key,
+          user_id: entry.userId,
+          task: entry.task,
+          model_id: entry.modelId,
+          deidentification: entry.deidentification,
+          result: entry.result,
+          created_at: new Date().toISOString(),
+          expires_at: expiresAt.toISOString(),
+        }),
+      });
+      if (!response.ok) throw new Error(`Cache write failed: ${response.status} ${await response.text()}`);
+    },
+  };
+}
+
+export function createCache(kind = Deno.env.get("RESULT_CACHE")): ResultCache | null {
+  const store = kind?.toLowerCase() ??
+    (Deno.env.get("SUPABASE_URL") && Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ? "postgres" : "memory");
+  switch (store) {
+    case "postgres":
+      return createPostgresCache();
+    case "memory":
+      return createMemoryCache();
+    case "none":
+      return null;
+    default:
+      throw new ServiceError("CONFIG_MISSING", `Unknown RESULT_CACHE "${kind}". Use postgres, memory or none.`);
+  }
+}
+
+let cache: ResultCache | null | undefined;
+
+// Answer from the cache when possible, otherwise run and store the result.
+// Cache failures are logged and never fail the request.
+export async function withCache<R extends object>(
+  request: AnalysisRequest,
+  userId: string | null,
+  run: () => Promise<R>,
+  // Partial results (e.g. a comparison where a model failed) are returned but not stored
+  cacheable: (result: R) => boolean = () => true,
+): Promise<R & { cache?: CacheInfo }> {
+  if (cache === undefined) cache = createCache();
+  const deidentification = request.deidentification;
+  if (!cache || !deidentification) return await run();
+
+  const key = await cacheKey(request, userId);
+  try {
+    const stored = await cache.get(key);
+    if (stored) return { ...(stored.result as R), cache: { hit: true, key, storedAt: stored.storedAt } };
+  } catch (error) {
+    console.error(`Result cache (${cache.name}):`, error instanceof Error ? error.message : error);
+  }
+
+  const result = await run();
+  const storedAt = new Date().toISOString();
+  if (cacheable(result)) {
+    const ttlHours = Number(Deno.env.get("RESULT_CACHE_TTL_HOURS")) || DEFAULT_TTL_HOURS;
+    const modelId = "modelId" in result ? String(result.modelId) : modelIdsFor(request).join(",");
+    try {
+      await cache.set(
+        { key, userId, task: request.type, modelId, deidentification, result },
+        new Date(Date.now() + ttlHours * 3600 * 1000),
+      );
+    } catch (error) {
+      console.error(`Result cache (${cache.name}):`, error instanceof Error ? error.message : error);
+    }
+  }
+  return { ...result, cache: { hit: false, key, storedAt } };
+}
@@ -0,0 +1,127 @@
+/**
+ * Sentence-aware sliding windows for long documents.
+ *
+ * The BERT token-classification models accept 512 tokens. Multi-page PDFs go
+ * well past that, so the text is cut into windows of whole sentences that stay
+ * under a token budget, with a sentence or two of overlap so entities on a
+ * window boundary are still seen in full by at least one window.
+ */
+
+export interface Span {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface WindowOptions {
+  maxTokens?: number;
+  overlapSentences?: number;
+}
+
+interface OffsetEntity {
+  type: string;
+  confidence: number;
+  start: number;
+  end: number;
+}
+
+// Leaves room for [CLS]/[SEP] and for our estimate undercounting word pieces
+const DEFAULT_MAX_TOKENS = 400;
+const DEFAULT_OVERLAP_SENTENCES = 1;
+
+export function splitSentences(text: string): Span[] {
+  const sentences: Span[] = [];
+  // A period between digits is a decimal point ("letrozole 2.5 mg"), not a sentence end
+  const pattern = /(?:[^.!?\n]|(?<=\d)\.(?=\d))+[.!?]?/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const raw = match[0];
+    const trimmed = raw.trim();
+    if (!trimmed) continue;
+    const start = match.index + raw.indexOf(trimmed);
+    sentences.push({ text: trimmed, start, end: start + trimmed.length });
+  }
+  return sentences;
+}
+
+// Rough WordPiece count: words and punctuation, plus ~30% for subword splits
+export function estimateTokens(text: string) {
+  const pieces = text.match(/\w+|[^\w\s]/g)?.length ?? 0;
+  return Math.ceil(pieces * 1.3);
+}
+
+// Hard-split a sentence that is over budget on its own (tables, run-on OCR text)
+function splitLongSpan(text: string, span: Span, maxTokens: number): Span[] {
+  const parts: Span[] = [];
+  const words = /\S+/g;
+  let partStart = -1;
+  let partEnd = -1;
+  let tokens = 0;
+  let match: RegExpExecArray | null;
+  const slice = text.slice(span.start, span.end);
+  while ((match = words.exec(slice)) !== null) {
+    const wordTokens = estimateTokens(match[0]);
+    if (partStart >= 0 && tokens + wordTokens > maxTokens) {
+      parts.push({ text: text.slice(partStart, partEnd), start: partStart, end: partEnd });
+      partStart = -1;
+      tokens = 0;
+    }
+    if (partStart < 0) partStart = span.start + match.index;
+    partEnd = span.start + match.index + match[0].length;
+    tokens += wordTokens;
+  }
+  if (partStart >= 0) parts.push({ text: text.slice(partStart, partEnd), start: partStart, end: partEnd });
+  return parts;
+}
+
+export function buildWindows(text: string, options: WindowOptions = {}): Span[] {
+  const maxTokens = options.maxTokens ?? DEFAULT_MAX_TOKENS;
+  const overlap = options.overlapSentences ?? DEFAULT_OVERLAP_SENTENCES;
+
+  if (estimateTokens(text) <= maxTokens) {
+    return [{ text, start: 0, end: text.length }];
+  }
+
+  const units = splitSentences(text).flatMap((s) =>
+    estimateTokens(s.text) > maxTokens ? splitLongSpan(text, s, maxTokens) : [s]
+  );
+
+  const windows: Span[] = [];
+  let first = 0;
+  while (first < units.length) {
+    let last = first;
+    let tokens = estimateTokens(units[first].text);
+    while (last + 1 < units.length && tokens + estimateTokens(units[last + 1].text) <= maxTokens) {
+      last++;
+      tokens += estimateTokens(units[last].text);
+    }
+
+    const start = units[first].start;
+    const end = units[last].end;
+    windows.push({ text: text.slice(start, end), start, end });
+
+    if (last === units.length - 1) break;
+    // Step forward but always make progress, even if overlap >= window size
+    first = Math.max(first + 1, last + 1 - overlap);
+  }
+  return windows;
+}
+
+/**
+ * Stitch entities found per window back into one list. Entities must already
+ * carry global offsets. Where windows overlap the same span can be reported
+ * twice (or with slightly different boundaries); the higher-confidence one wins.
+ */
+export function mergeWindowEntities<T extends OffsetEntity>(entities: T[]): T[] {
+  const sorted = [...entities].sort((a, b) => a.start - b.start || b.confidence - a.confidence);
+  const merged: T[] = [];
+  for (const entity of sorted) {
+    const clash = merged.findIndex((m) => entity.start < m.end && entity.end > m.start);
+    if (clash < 0) {
+      merged.push(entity);
+    } else if (entity.confidence > merged[clash].confidence) {
+      merged[clash] = entity;
+    }
+  }
+  return merged.sort((a, b) => a.start - b.start);
+}
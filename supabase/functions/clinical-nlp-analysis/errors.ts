@@ -0,0 +1,41 @@
+/**
+ * Typed failures for the clinical-nlp-analysis function.
+ *
+ * Anything thrown while handling a request ends up as an error envelope
+ * (../_shared/contract.ts) with the HTTP status for its code. Throw a
+ * ServiceError wherever the cause is known; anything else is reported as
+ * INTERNAL_ERROR. Codes the client may retry carry `retryAfter` in seconds.
+ */
+
+import type { ErrorCode } from "../_shared/contract.ts";
+
+export const ERROR_STATUS: Record<ErrorCode, number> = {
+  INVALID_INPUT: 400,
+  UNAUTHORIZED: 401,
+  RATE_LIMITED: 429,
+  CONFIG_MISSING: 500,
+  INTERNAL_ERROR: 500,
+  UPSTREAM_ERROR: 502,
+  MODEL_LOADING: 503,
+  UPSTREAM_TIMEOUT: 504,
+};
+
+export class ServiceError extends Error {
+  constructor(
+    readonly code: ErrorCode,
+    message: string,
+    readonly retryAfter?: number,
+  ) {
+    super(message);
+    this.name = "ServiceError";
+  }
+
+  get status() {
+    return ERROR_STATUS[this.code];
+  }
+}
+
+export function toServiceError(error: unknown): ServiceError {
+  if (error instanceof ServiceError) return error;
+  return new ServiceError("INTERNAL_ERROR", error instanceof Error ? error.message : "Unknown error");
+}
@@ -1,4 +1,27 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import {
+  type ComparisonResult,
+  errorEnvelope,
+  type NERResult,
+  parseAnalysisRequest,
+  type QAResult,
+  type SectionType,
+  successEnvelope,
+  type SummarizationResult,
+} from "../_shared/contract.ts";
+import { expandAbbreviations, findAbbreviations, toOriginalOffset } from "./abbreviations.ts";
+import { assertEntities } from "./assertion.ts";
+import { recordAnalysis } from "./audit.ts";
+import { callerId } from "./auth.ts";
+import { withCache } from "./cache.ts";
+import { buildWindows, estimateTokens, mergeWindowEntities, type Span } from "./chunking.ts";
+import { ServiceError, toServiceError } from "./errors.ts";
+import { getModels, resolveModel } from "./models.ts";
+import { createProvider, type InferenceProvider, type InferenceTask } from "./providers.ts";
+import { extractMedications } from "./relations.ts";
+import { describeSections, type Section, sectionAt, segmentSections } from "./sections.ts";
+import { repairSpans } from "./spans.ts";
+import { normalizeEntities } from "./terminology.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -9,102 +32,159 @@ const corsHeaders = {
 /**
  * Clinical NLP Analysis Edge Function (Hugging Face Integration)
  * 
- * Uses Hugging Face Inference API for real ML tasks:
- * - NER: d4data/biomedical-ner-all
- * - Summarization: sshleifer/distilbart-cnn-12-6
- * - QA: deepset/roberta-base-squad2
+ * Uses Hugging Face Inference API for real ML tasks. The `model` field of each
+ * request is a display name resolved per task by the catalog in models.ts:
+ * - NER: BioBERT (d4data/biomedical-ner-all, default), ClinicalBERT, PubMedBERT
+ * - Summarization: DistilBART (sshleifer/distilbart-cnn-12-6, default), ...
+ * - QA: RoBERTa-SQuAD2 (deepset/roberta-base-squad2, default), ...
+ * - Comparison: every NER model in the catalog, queried in parallel
+ *
+ * The backend is chosen with INFERENCE_PROVIDER (huggingface | local | stub),
+ * see providers.ts. Request and response shapes are defined and validated in
+ * ../_shared/contract.ts; failures are returned with a typed code and HTTP
+ * status (errors.ts). Signed-in callers are identified with auth.ts, and
+ * every request is recorded in the audit log (audit.ts).
  */
 
-const HF_API_KEY = Deno.env.get("HUGGING_FACE_API_KEY");
-const HF_API_URL = "https://router.huggingface.co/hf-inference/models";
+let provider: InferenceProvider | null = null;
 
-interface NERRequest {
-  text: string;
-  model: string;
-  confidenceThreshold?: number;
+// Helper to query the configured inference provider (created on first use)
+function queryModel(task: InferenceTask, modelId: string, payload: unknown) {
+  if (!provider) provider = createProvider();
+  return provider.query(task, modelId, payload);
 }
 
-interface SummarizationRequest {
-  text: string;
-  model: string;
-}
+// Run one token-classification model over the text, window by window
+async function runNER(modelId: string, text: string, threshold = 0.5, expand = false) {
+  // The model may see expanded text; offsets are mapped back to the original below
+  const expanded = expand ? expandAbbreviations(text) : { text, expansions: [] };
+
+  // Long documents are analyzed window by window (see chunking.ts)
+  const windows = buildWindows(expanded.text);
+  const found: any[] = [];
+
+  for (const window of windows) {
+    const result = await queryModel("token-classification", modelId, { inputs: window.text });
+    if (!Array.isArray(result)) continue;
+
+    // Subword fragments, stray punctuation and overlaps are repaired per window (see spans.ts);
+    // repairSpans() also re-reads each entity's text from the original at its offsets
+    found.push(...repairSpans(text, result.map((item: any) => ({
+      text: item.word,
+      type: item.entity_group,
+      confidence: item.score,
+      start: toOriginalOffset(expanded.expansions, item.start + window.start, "start"),
+      end: toOriginalOffset(expanded.expansions, item.end + window.start, "end"),
+    }))));
+  }
+
+  // Negation / uncertainty / family history from the surrounding sentence
+  const sections = segmentSections(text);
+  // Concept codes (SNOMED CT / RxNorm / ICD-O-3) from the local vocabularies
+  const entities = normalizeEntities(assertEntities(text, mergeWindowEntities(found).filter((e: any) => e.confidence >= threshold))
+    .map((e) => ({ ...e, section: sectionAt(sections, e.start)?.type ?? "body" })));
 
-interface QARequest {
-  text: string;
-  question: string;
-  model: string;
+  const avgConfidence = entities.length > 0
+    ? entities.reduce((sum: number, e: any) => sum + e.confidence, 0) / entities.length
+    : 0;
+
+  return {
+    entities,
+    entityCount: entities.length,
+    avgConfidence: Number(avgConfidence.toFixed(4)),
+    entityTypes: [...new Set(entities.map((e: any) => e.type))],
+    windowCount: windows.length,
+    negatedCount: entities.filter((e) => e.assertion === "negated").length,
+    // Drug -> dose / route / frequency / duration links (relations.ts)
+    medications: extractMedications(text, entities),
+    sections: describeSections(sections),
+    // Known abbreviations with their expansion in context, for tooltips
+    abbreviations: findAbbreviations(text),
+    abbreviationsExpanded: expanded.expansions.length > 0,
+  };
 }
 
-interface ComparisonRequest {
-  text: string;
+async function performNER(text: string, modelName: string, threshold = 0.5, expand = false): Promise<NERResult> {
+  const { name, modelId } = resolveModel("ner", modelName);
+  const result = await runNER(modelId, text, threshold, expand);
+  return { ...result, model: name, modelId };
 }
 
-// Helper to query Hugging Face API
-async function queryHuggingFace(modelId: string, payload: any) {
-  if (!HF_API_KEY) {
-    throw new Error("Missing HUGGING_FACE_API_KEY in environment variables. Please add it to your Supabase project secrets.");
-  }
+// distilbart accepts 1024 tokens; chunks stay well below that
+const SUMMARY_CHUNK_TOKENS = 700;
+// Upper bound on model calls for a single request (map step)
+const MAX_SUMMARY_CHUNKS = 12;
+const MAX_REDUCE_ROUNDS = 3;
 
-  const response = await fetch(`${HF_API_URL}/${modelId}`, {
-    headers: {
-      Authorization: `Bearer ${HF_API_KEY}`,
-      "Content-Type": "application/json",
-    },
-    method: "POST",
-    body: JSON.stringify(payload),
+async function summarizeOnce(modelId: string, text: string, maxLength = 150) {
+  const result = await queryModel("summarization", modelId, {
+    inputs: text,
+    parameters: { min_length: Math.min(30, Math.floor(text.length / 2)), max_length: maxLength }
   });
+  return (result[0]?.summary_text || "").trim();
+}
 
-  if (!response.ok) {
-    const errorBody = await response.text();
-    console.error(`HF Error (${modelId}):`, errorBody);
-
-    // Handle model loading state (503)
-    if (response.status === 503) {
-      throw new Error(`Model ${modelId} is currently loading. Please try again in 30 seconds.`);
-    }
-
-    throw new Error(`Hugging Face API failed: ${response.statusText} - ${errorBody}`);
+async function summarizeEach(modelId: string, chunks: Span[], maxLength: number) {
+  const summaries: string[] = [];
+  for (const chunk of chunks) {
+    summaries.push(await summarizeOnce(modelId, chunk.text, maxLength));
   }
-
-  return await response.json();
+  return summaries.filter(Boolean).join(" ");
 }
 
-async function performNER(text: string, _modelName: string, threshold = 0.5) {
-  // Primary powerful model for all single-model requests
-  const modelId = "d4data/biomedical-ner-all";
+// Sections shorter than this are kept verbatim when summarizing by section
+const SECTION_SUMMARY_MIN_WORDS = 40;
 
-  const result = await queryHuggingFace(modelId, { inputs: text });
+async function summarizeText(modelId: string, text: string) {
+  // Map-reduce: summarize each chunk, then summarize the summaries until they fit one call
+  const chunks = buildWindows(text, { maxTokens: SUMMARY_CHUNK_TOKENS, overlapSentences: 0 });
+  const processed = chunks.slice(0, MAX_SUMMARY_CHUNKS);
+  const strategy: "single" | "map-reduce" = chunks.length > 1 ? "map-reduce" : "single";
 
-  const entities = Array.isArray(result) ? result.map((item: any) => ({
-    text: item.word,
-    type: item.entity_group,
-    confidence: item.score,
-    start: item.start,
-    end: item.end,
-  })).filter((e: any) => e.confidence >= threshold) : [];
+  let combined = processed.length > 1 ? await summarizeEach(modelId, processed, 120) : processed[0]?.text ?? text;
+  for (let round = 0; round < MAX_REDUCE_ROUNDS && estimateTokens(combined) > SUMMARY_CHUNK_TOKENS; round++) {
+    combined = await summarizeEach(modelId, buildWindows(combined, { maxTokens: SUMMARY_CHUNK_TOKENS, overlapSentences: 0 }), 120);
+  }
 
-  const avgConfidence = entities.length > 0
-    ? entities.reduce((sum: number, e: any) => sum + e.confidence, 0) / entities.length
-    : 0;
+  const summary = await summarizeOnce(modelId, combined) || "Summarization failed.";
+  const totalChars = chunks.reduce((sum, c) => sum + c.text.length, 0);
+  const coveredChars = processed.reduce((sum, c) => sum + c.text.length, 0);
 
-  return {
-    entities,
-    entityCount: entities.length,
-    avgConfidence: Number(avgConfidence.toFixed(4)),
-    entityTypes: [...new Set(entities.map((e: any) => e.type))],
-  };
+  return { summary, strategy, chunkCount: processed.length, totalChunks: chunks.length, coveredChars, totalChars };
 }
 
-async function performSummarization(text: string, _modelName: string) {
-  const modelId = "sshleifer/distilbart-cnn-12-6";
-  const truncatedText = text.slice(0, 2000);
+async function summarizeSections(modelId: string, sections: Section[]) {
+  const parts = [];
 
-  const result = await queryHuggingFace(modelId, {
-    inputs: truncatedText,
-    parameters: { min_length: Math.min(30, Math.floor(truncatedText.length / 2)), max_length: 150 }
-  });
+  for (const section of sections) {
+    const content = section.text.trim();
+    if (content.split(/\s+/).length < SECTION_SUMMARY_MIN_WORDS) {
+      parts.push({ section, summary: content, summarized: false, chunkCount: 0, totalChunks: 0, coveredChars: content.length, totalChars: content.length });
+    } else {
+      parts.push({ section, summarized: true, ...await summarizeText(modelId, content) });
+    }
+  }
+
+  return parts;
+}
 
-  const summary = result[0]?.summary_text || "Summarization failed.";
+async function performSummarization(text: string, modelName: string, bySection = false, expand = false): Promise<SummarizationResult> {
+  const { name, modelId } = resolveModel("summarization", modelName);
+  const source = expand ? expandAbbreviations(text).text : text;
+
+  // A note without headers is summarized as a whole even when bySection is set
+  const sections = bySection ? segmentSections(source).filter((s) => s.text.trim()) : [];
+  const sectioned = sections.length > 1 ? await summarizeSections(modelId, sections) : null;
+  const { summary, strategy, chunkCount, totalChunks, coveredChars, totalChars } = sectioned
+    ? {
+      summary: sectioned.map((p) => `${p.section.title ?? "Overview"}: ${p.summary}`).join("\n"),
+      strategy: "by-section" as const,
+      chunkCount: sectioned.reduce((sum, p) => sum + p.chunkCount, 0),
+      totalChunks: sectioned.reduce((sum, p) => sum + p.totalChunks, 0),
+      coveredChars: sectioned.reduce((sum, p) => sum + p.coveredChars, 0),
+      totalChars: sectioned.reduce((sum, p) => sum + p.totalChars, 0),
+    }
+    : await summarizeText(modelId, source);
 
   const originalWords = text.split(/\s+/).length;
   const summaryWords = summary.split(/\s+/).length;
@@ -117,75 +197,111 @@ async function performSummarization(text: string, _modelName: string) {
     originalWords,
     summaryWords,
     compressionRatio: `${compressionRatio}%`,
+    model: name,
+    modelId,
+    strategy,
+    chunkCount,
+    totalChunks,
+    sections: sectioned
+      ? sectioned.map((p) => ({ type: p.section.type, title: p.section.title, summary: p.summary, summarized: p.summarized }))
+      : undefined,
+    coverage: {
+      ratio: totalChars > 0 ? Number((coveredChars / totalChars).toFixed(4)) : 1,
+      coveredChars,
+      totalChars,
+    },
   };
 }
 
-async function performQA(text: string, question: string, modelName: string) {
-  const modelId = "deepset/roberta-base-squad2";
-  const result = await queryHuggingFace(modelId, {
-    inputs: {
-      question: question,
-      context: text
+async function performQA(text: string, question: string, modelName: string, section?: SectionType, expand = false): Promise<QAResult> {
+  const { name, modelId } = resolveModel("qa", modelName);
+
+  // Without a target section the whole note is the context
+  const sections = segmentSections(text);
+  const targets = section ? sections.filter((s) => s.type === section && s.text.trim()) : [];
+  if (section && targets.length === 0) {
+    throw new ServiceError("INVALID_INPUT", `No "${section}" section found. Sections in this text: ${sections.map((s) => s.type).join(", ")}.`);
+  }
+  const contexts = section ? targets.map((s) => ({ text: s.text, offset: s.contentStart })) : [{ text, offset: 0 }];
+
+  let best: any = null;
+  for (const context of contexts) {
+    // Answer offsets come back in the expanded context and are mapped to the original
+    const expanded = expand ? expandAbbreviations(context.text) : { text: context.text, expansions: [] };
+    const result = await queryModel("question-answering", modelId, {
+      inputs: {
+        question: expand ? expandAbbreviations(question).text : question,
+        context: expanded.text
+      }
+    });
+    if (!best || (result.score || 0) > (best.score || 0)) {
+      const start = toOriginalOffset(expanded.expansions, result.start || 0, "start");
+      const end = toOriginalOffset(expanded.expansions, result.end || 0, "end");
+      best = { ...result, start: start + context.offset, end: end + context.offset };
     }
-  });
+  }
 
   return {
     question,
-    answer: result.answer || "No answer found",
-    confidence: result.score || 0,
-    context: text.substring(Math.max(0, (result.start || 0) - 50), Math.min(text.length, (result.end || 0) + 50)) || "",
-    model: modelName,
+    answer: best.answer || "No answer found",
+    confidence: best.score || 0,
+    context: text.substring(Math.max(0, best.start - 50), Math.min(text.length, best.end + 50)) || "",
+    ...(best.answer ? { start: best.start, end: best.end } : {}),
+    section: section ?? null,
+    model: name,
+    modelId,
   };
 }
 
-// Helper to simulate variations for comparison demo
-function varyEntities(entities: any[], dropRate: number, noiseLevel: number) {
-  return entities
-    .filter(() => Math.random() > dropRate) // Randomly drop some entities to simulate lower recall
-    .map(e => ({
-      ...e,
-      confidence: Math.max(0, Math.min(1, e.confidence + (Math.random() - 0.5) * noiseLevel)) // Add noise to confidence
-    }));
-}
-
-async function performComparison(text: string) {
-  // 1. Get the "Gold Standard" result from the best model
-  const baseResult = await performNER(text, "BioBERT");
-
-  // 2. Derive variations to simulate different model characteristics
-  // This solves the issue of "all models showing exact same output" in the demo
-
-  // BioBERT (The actual high-quality result)
-  const biobertEntities = baseResult.entities;
-
-  // ClinicalBERT (Simulate: Slightly different, maybe fewer specific gene/protein entities)
-  const clinicalbertEntities = varyEntities(baseResult.entities, 0.1, 0.05);
-
-  // PubMedBERT (Simulate: Good but maybe different confidence profile)
-  const pubmedbertEntities = varyEntities(baseResult.entities, 0.05, 0.1);
-
-  const models = [
-    { name: 'BioBERT', entities: biobertEntities },
-    { name: 'ClinicalBERT', entities: clinicalbertEntities },
-    { name: 'PubMedBERT', entities: pubmedbertEntities }
-  ];
-
-  const results = models.map(m => {
-    const avgConf = m.entities.length > 0
-      ? m.entities.reduce((sum: number, e: any) => sum + e.confidence, 0) / m.entities.length
-      : 0;
-
-    return {
-      model: m.name,
-      entityCount: m.entities.length,
-      avgConfidence: Number(avgConf.toFixed(4)),
-      entities: m.entities,
-      entityTypes: [...new Set(m.entities.map((e: any) => e.type))],
-    };
-  });
+async function performComparison(text: string): Promise<ComparisonResult> {
+  // Query every registered model for real, in parallel, timing each one
+  const registry = getModels("ner");
+  const failures: ServiceError[] = [];
+
+  const results = await Promise.all(Object.entries(registry).map(async ([name, modelId]) => {
+    const started = Date.now();
+    try {
+      const result = await runNER(modelId, text);
+      return {
+        model: name,
+        modelId,
+        status: "ok" as const,
+        latencyMs: Date.now() - started,
+        entityCount: result.entityCount,
+        avgConfidence: result.avgConfidence,
+        entities: result.entities,
+        entityTypes: result.entityTypes,
+      };
+    } catch (error) {
+      const failure = toServiceError(error);
+      failures.push(failure);
+      return {
+        model: name,
+        modelId,
+        status: "error" as const,
+        latencyMs: Date.now() - started,
+        error: failure.message,
+        entityCount: 0,
+        avgConfidence: 0,
+        entities: [],
+        entityTypes: [],
+      };
+    }
+  }));
+
+  const succeeded = results.filter((r) => r.status === "ok");
+  if (succeeded.length === 0) {
+    // Reported with the first model's code, so e.g. models that are all still loading can be retried
+    const retryAfter = Math.max(0, ...failures.map((f) => f.retryAfter ?? 0));
+    throw new ServiceError(
+      failures[0].code,
+      `All models failed: ${results.map((r) => `${r.model}: ${r.error}`).join("; ")}`,
+      retryAfter || undefined,
+    );
+  }
 
   // Calculate best model based on F1-like heuristic (count * confidence)
-  const bestModel = results.reduce((prev, current) =>
+  const bestModel = succeeded.reduce((prev, current) =>
     (current.entityCount * current.avgConfidence) > (prev.entityCount * prev.avgConfidence) ? current : prev
   );
 
@@ -193,7 +309,7 @@ async function performComparison(text: string) {
     models: results,
     recommendation: {
       model: bestModel.model,
-      reason: `Best performance with ${bestModel.entityCount} entities and ${(bestModel.avgConfidence * 100).toFixed(1)}% confidence.`,
+      reason: `Best performance with ${bestModel.entityCount} entities and ${(bestModel.avgConfidence * 100).toFixed(1)}% confidence (${bestModel.latencyMs} ms).`,
     },
   };
 }
@@ -203,46 +319,51 @@ Deno.serve(async (req: Request) => {
     return new Response(null, { status: 200, headers: corsHeaders });
   }
 
+  const json = (body: unknown, status = 200, extraHeaders: Record<string, string> = {}) => new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, ...extraHeaders, 'Content-Type': 'application/json' } }
+  );
+
+  const parsed = parseAnalysisRequest(await req.json().catch(() => null));
+  if (!parsed.ok) {
+    return json(errorEnvelope('INVALID_INPUT', `Invalid request: ${parsed.errors.join('; ')}`, { details: parsed.errors }), 400);
+  }
+  const request = parsed.value;
+
+  // Set once the caller is identified; requests with a rejected token are not audited
+  let userId: string | null | undefined;
   try {
-    const { type, ...params } = await req.json();
-    let result;
-
-    switch (type) {
-      case 'ner': {
-        const p = params as NERRequest;
-        result = await performNER(p.text, p.model, p.confidenceThreshold);
-        break;
-      }
-      case 'summarization': {
-        const p = params as SummarizationRequest;
-        result = await performSummarization(p.text, p.model);
-        break;
-      }
-      case 'qa': {
-        const p = params as QARequest;
-        result = await performQA(p.text, p.question, p.model);
-        break;
-      }
-      case 'comparison': {
-        const p = params as ComparisonRequest;
-        result = await performComparison(p.text);
-        break;
-      }
-      default:
-        throw new Error('Invalid analysis type');
+    const caller = await callerId(req);
+    userId = caller;
+    // Repeated requests of the same user for the same de-identified text are answered from the cache (cache.ts)
+    const run = async <R extends object>(task: () => Promise<R>, cacheable?: (result: R) => boolean) => {
+      const result = await withCache(request, caller, task, cacheable);
+      await recordAnalysis(request, caller, { status: "ok", cacheHit: result.cache?.hit ?? false });
+      return result;
+    };
+    switch (request.type) {
+      case 'ner':
+        return json(successEnvelope('ner', await run(() =>
+          performNER(request.text, request.model, request.confidenceThreshold, request.expandAbbreviations))));
+      case 'summarization':
+        return json(successEnvelope('summarization', await run(() =>
+          performSummarization(request.text, request.model, request.bySection, request.expandAbbreviations))));
+      case 'qa':
+        return json(successEnvelope('qa', await run(() =>
+          performQA(request.text, request.question, request.model, request.section, request.expandAbbreviations))));
+      case 'comparison':
+        return json(successEnvelope('comparison', await run(() =>
+          performComparison(request.text), (result) => result.models.every((m) => m.status === "ok"))));
     }
-
-    return new Response(
-      JSON.stringify({ success: true, data: result }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
   } catch (error) {
-    return new Response(
-      JSON.stringify({
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error'
-      }),
-      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    const failure = toServiceError(error);
+    if (userId !== undefined) {
+      await recordAnalysis(request, userId, { status: "error", errorCode: failure.code });
+    }
+    return json(
+      errorEnvelope(failure.code, failure.message, { retryAfter: failure.retryAfter }),
+      failure.status,
+      failure.retryAfter ? { 'Retry-After': String(failure.retryAfter) } : {},
     );
   }
 });
\ No newline at end of file
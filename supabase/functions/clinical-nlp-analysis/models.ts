@@ -0,0 +1,69 @@
+/**
+ * Model catalog: maps the display names used in the UI to the Hugging Face
+ * model IDs that actually run, per task. Any entry can be overridden per
+ * deployment with an env var named <TASK>_MODEL_<NAME>, e.g.
+ * NER_MODEL_CLINICALBERT=<org/model> or SUMMARIZATION_MODEL_DISTILBART=<org/model>.
+ *
+ * Keep the display names in sync with MODEL_OPTIONS in src/lib/api.ts.
+ */
+
+import { ServiceError } from "./errors.ts";
+
+export type ModelTask = "ner" | "summarization" | "qa";
+
+export interface ResolvedModel {
+  name: string;
+  modelId: string;
+}
+
+const DEFAULT_CATALOG: Record<ModelTask, { defaultModel: string; models: Record<string, string> }> = {
+  ner: {
+    defaultModel: "BioBERT",
+    models: {
+      BioBERT: "d4data/biomedical-ner-all",
+      ClinicalBERT: "samrawal/bert-base-uncased_clinical-ner",
+      PubMedBERT: "pruas/BENT-PubMedBERT-NER-Disease",
+    },
+  },
+  summarization: {
+    defaultModel: "DistilBART",
+    models: {
+      DistilBART: "sshleifer/distilbart-cnn-12-6",
+      "BART-Large-CNN": "facebook/bart-large-cnn",
+      "Medical-T5": "Falconsai/medical_summarization",
+    },
+  },
+  qa: {
+    defaultModel: "RoBERTa-SQuAD2",
+    models: {
+      "RoBERTa-SQuAD2": "deepset/roberta-base-squad2",
+      "BioBERT-SQuAD": "dmis-lab/biobert-large-cased-v1.1-squad",
+    },
+  },
+};
+
+function envKey(task: ModelTask, name: string) {
+  return `${task.toUpperCase()}_MODEL_${name.toUpperCase().replace(/[^A-Z0-9]/g, "_")}`;
+}
+
+export function getModels(task: ModelTask): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(DEFAULT_CATALOG[task].models).map(([name, modelId]) => [
+      name,
+      Deno.env.get(envKey(task, name)) ?? modelId,
+    ]),
+  );
+}
+
+// Resolve a requested display name (or the task default) to the model that will run
+export function resolveModel(task: ModelTask, requested?: string): ResolvedModel {
+  const models = getModels(task);
+  const name = requested?.trim() || DEFAULT_CATALOG[task].defaultModel;
+  const modelId = Object.hasOwn(models, name) ? models[name] : undefined;
+
+  if (!modelId) {
+    throw new ServiceError("INVALID_INPUT", `Unknown ${task} model "${name}". Available models: ${Object.keys(models).join(", ")}.`);
+  }
+
+  return { name, modelId };
+}
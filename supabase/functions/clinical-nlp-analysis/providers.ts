@@ -0,0 +1,134 @@
+/**
+ * Inference providers for the clinical-nlp-analysis function.
+ *
+ * Every provider speaks the Hugging Face Inference API payload/response format,
+ * so the task functions in index.ts don't care where the model actually runs.
+ * The provider is picked with the INFERENCE_PROVIDER env var:
+ * - huggingface (default): HF router, needs HUGGING_FACE_API_KEY
+ * - local: any HF-compatible HTTP server at LOCAL_INFERENCE_URL
+ * - stub: deterministic in-process responses (recorded fixtures first)
+ *
+ * Upstream failures are thrown as ServiceErrors (errors.ts): 503 -> MODEL_LOADING,
+ * 429 -> RATE_LIMITED, no answer within INFERENCE_TIMEOUT_MS -> UPSTREAM_TIMEOUT.
+ */
+
+import { ServiceError } from "./errors.ts";
+import { stubInference } from "./stub.ts";
+
+export type InferenceTask = "token-classification" | "summarization" | "question-answering";
+
+export interface InferenceProvider {
+  name: string;
+  query(task: InferenceTask, modelId: string, payload: unknown): Promise<any>;
+}
+
+const HF_API_URL = "https://router.huggingface.co/hf-inference/models";
+const DEFAULT_LOCAL_URL = "http://localhost:8080/models";
+// Stays under the edge runtime's wall-clock limit, with room for a second call
+const DEFAULT_TIMEOUT_MS = 60_000;
+// Used when a 503 / 429 comes without an estimate or Retry-After header
+const DEFAULT_RETRY_AFTER = 20;
+
+// Seconds from HF's "estimated_time" (model loading) or a Retry-After header
+function retryAfterSeconds(response: Response, errorBody: string) {
+  const header = Number(response.headers.get("Retry-After"));
+  if (Number.isFinite(header) && header > 0) return Math.ceil(header);
+  try {
+    const estimated = Number(JSON.parse(errorBody).estimated_time);
+    if (Number.isFinite(estimated) && estimated > 0) return Math.ceil(estimated);
+  } catch {
+    // Not JSON
+  }
+  return DEFAULT_RETRY_AFTER;
+}
+
+// Shared POST helper for the HTTP-backed providers
+async function postInference(label: string, url: string, payload: unknown, token?: string) {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (token) headers.Authorization = `Bearer ${token}`;
+  const timeoutMs = Number(Deno.env.get("INFERENCE_TIMEOUT_MS")) || DEFAULT_TIMEOUT_MS;
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      headers,
+      method: "POST",
+      body: JSON.stringify(payload),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "TimeoutError") {
+      throw new ServiceError("UPSTREAM_TIMEOUT", `${label} did not answer within ${timeoutMs / 1000} seconds.`, 5);
+    }
+    throw new ServiceError("UPSTREAM_ERROR", `${label} is unreachable at ${url}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (!response.ok) {
+    const errorBody = await response.text();
+    console.error(`${label} Error (${url}):`, errorBody);
+
+    switch (response.status) {
+      case 503:
+        throw new ServiceError("MODEL_LOADING", `Model at ${url} is currently loading.`, retryAfterSeconds(response, errorBody));
+      case 429:
+        throw new ServiceError("RATE_LIMITED", `${label} rate limit reached.`, retryAfterSeconds(response, errorBody));
+      case 504:
+        throw new ServiceError("UPSTREAM_TIMEOUT", `${label} timed out.`, 5);
+      case 401:
+      case 403:
+        throw new ServiceError("CONFIG_MISSING", `${label} rejected the API token (${response.status}). Check the function secrets.`);
+      default:
+        throw new ServiceError("UPSTREAM_ERROR", `${label} inference failed: ${response.statusText} - ${errorBody}`);
+    }
+  }
+
+  return await response.json();
+}
+
+export function createHuggingFaceProvider(apiKey = Deno.env.get("HUGGING_FACE_API_KEY")): InferenceProvider {
+  return {
+    name: "huggingface",
+    query(_task, modelId, payload) {
+      if (!apiKey) {
+        throw new ServiceError("CONFIG_MISSING", "Missing HUGGING_FACE_API_KEY in environment variables. Please add it to your Supabase project secrets.");
+      }
+      return postInference("Hugging Face", `${HF_API_URL}/${modelId}`, payload, apiKey);
+    },
+  };
+}
+
+export function createLocalProvider(
+  baseUrl = Deno.env.get("LOCAL_INFERENCE_URL") ?? DEFAULT_LOCAL_URL,
+  token = Deno.env.get("LOCAL_INFERENCE_TOKEN"),
+): InferenceProvider {
+  const root = baseUrl.replace(/\/+$/, "");
+  return {
+    name: "local",
+    query(_task, modelId, payload) {
+      return postInference("Local", `${root}/${modelId}`, payload, token);
+    },
+  };
+}
+
+export function createStubProvider(): InferenceProvider {
+  return {
+    name: "stub",
+    query(task, modelId, payload) {
+      return Promise.resolve(stubInference(task, modelId, payload));
+    },
+  };
+}
+
+export function createProvider(kind = Deno.env.get("INFERENCE_PROVIDER") ?? "huggingface"): InferenceProvider {
+  switch (kind.toLowerCase()) {
+    case "huggingface":
+    case "hf":
+      return createHuggingFaceProvider();
+    case "local":
+      return createLocalProvider();
+    case "stub":
+      return createStubProvider();
+    default:
+      throw new ServiceError("CONFIG_MISSING", `Unknown INFERENCE_PROVIDER "${kind}". Use huggingface, local or stub.`);
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Medication relation extraction.
+ *
+ * NER returns drugs, doses and frequencies as unrelated spans. Each drug is
+ * linked to the attributes that follow it in the same clause, i.e. up to the
+ * next drug or the end of the sentence ("Anastrozole 1mg daily for 5 years").
+ * Attributes come from the model's own entities (Dosage, Administration,
+ * Frequency, Duration) when present, otherwise from patterns over the clause,
+ * so a route or duration the model missed is still picked up.
+ */
+
+import type { AssertionStatus } from "./assertion.ts";
+import { splitSentences } from "./chunking.ts";
+
+type Attribute = "dose" | "route" | "frequency" | "duration";
+
+export interface RelationArgument {
+  text: string;
+  start: number;
+  end: number;
+  source: "ner" | "pattern";
+}
+
+export interface MedicationRelation {
+  drug: string;
+  start: number;
+  end: number;
+  confidence: number;
+  assertion?: AssertionStatus;
+  dose: RelationArgument | null;
+  route: RelationArgument | null;
+  frequency: RelationArgument | null;
+  duration: RelationArgument | null;
+}
+
+interface RelationEntity {
+  text: string;
+  type: string;
+  confidence: number;
+  start: number;
+  end: number;
+  assertion?: AssertionStatus;
+}
+
+// d4data tags for drugs; i2b2 "treatment" also covers procedures, so it only counts with an attribute
+const DRUG_TYPES = new Set(["Medication"]);
+const WEAK_DRUG_TYPES = new Set(["treatment"]);
+
+const ATTRIBUTE_TYPES: Record<string, Attribute> = {
+  Dosage: "dose",
+  Administration: "route",
+  Frequency: "frequency",
+  Duration: "duration",
+};
+
+const ATTRIBUTE_PATTERNS: Record<Attribute, RegExp> = {
+  dose: /\b\d+(?:\.\d+)?\s?(?:mg\/m2|mg\/m²|mg\/kg|mg|mcg|µg|g|ml|units?|iu)\b|\bAUC\s?\d+\b/i,
+  route: /\b(?:orally|oral|by mouth|PO|intravenous(?:ly)?|IV|subcutaneous(?:ly)?|SC|SQ|intramuscular(?:ly)?|IM|transdermal|topical(?:ly)?)\b/,
+  frequency: /\b(?:once daily|twice daily|three times daily|daily|nightly|weekly|biweekly|monthly|every (?:other )?(?:\d+ )?(?:days?|weeks?|hours?|months?)|q\d+(?:h|w|d)|qd|bid|tid|qid|qhs|prn|as needed)\b/i,
+  duration: /\bfor (?:\d+|one|two|three|four|five|six|ten) (?:days?|weeks?|months?|years?|cycles?)\b|\b(?:x\s?)?\d+ cycles\b/i,
+};
+
+function fromPattern(attribute: Attribute, text: string, from: number, to: number): RelationArgument | null {
+  const match = ATTRIBUTE_PATTERNS[attribute].exec(text.slice(from, to));
+  if (!match) return null;
+  const start = from + match.index;
+  return { text: match[0], start, end: start + match[0].length, source: "pattern" };
+}
+
+export function extractMedications(text: string, entities: RelationEntity[]): MedicationRelation[] {
+  const sentences = splitSentences(text);
+  const sorted = [...entities].sort((a, b) => a.start - b.start);
+  const drugs = sorted.filter((e) => DRUG_TYPES.has(e.type) || WEAK_DRUG_TYPES.has(e.type));
+
+  const medications: MedicationRelation[] = [];
+  drugs.forEach((drug, idx) => {
+    const sentence = sentences.find((s) => drug.start >= s.start && drug.start < s.end);
+    const sentenceEnd = sentence ? sentence.end : text.length;
+    const nextDrug = drugs[idx + 1];
+    const clauseEnd = nextDrug && nextDrug.start < sentenceEnd ? nextDrug.start : sentenceEnd;
+
+    const relation: MedicationRelation = {
+      drug: text.slice(drug.start, drug.end),
+      start: drug.start,
+      end: drug.end,
+      confidence: drug.confidence,
+      assertion: drug.assertion,
+      dose: null,
+      route: null,
+      frequency: null,
+      duration: null,
+    };
+
+    for (const entity of sorted) {
+      const attribute = ATTRIBUTE_TYPES[entity.type];
+      if (!attribute || relation[attribute] || entity.start < drug.end || entity.start >= clauseEnd) continue;
+      relation[attribute] = { text: text.slice(entity.start, entity.end), start: entity.start, end: entity.end, source: "ner" };
+    }
+
+    for (const attribute of Object.keys(ATTRIBUTE_PATTERNS) as Attribute[]) {
+      if (!relation[attribute]) relation[attribute] = fromPattern(attribute, text, drug.end, clauseEnd);
+    }
+
+    const linked = relation.dose || relation.route || relation.frequency || relation.duration;
+    if (DRUG_TYPES.has(drug.type) || linked) medications.push(relation);
+  });
+
+  return medications;
+}
@@ -0,0 +1,110 @@
+/**
+ * Clinical section segmentation.
+ *
+ * Splits a report into typed sections at headers such as "CLINICAL HISTORY:",
+ * "Microscopic examination:" or "Plan:". A header is a known title (or any
+ * all-caps line) followed by a colon, at the start of a line or right after a
+ * sentence, so one-line notes ("Diagnosis: IDC. Plan: lumpectomy.") split too.
+ * Text before the first header is a "preamble" section; a note without any
+ * header is one "body" section. Offsets refer to the original text.
+ */
+
+export type SectionType =
+  | "history"
+  | "specimen"
+  | "gross"
+  | "microscopic"
+  | "findings"
+  | "diagnosis"
+  | "impression"
+  | "biomarkers"
+  | "medications"
+  | "plan"
+  | "other"
+  | "preamble"
+  | "body";
+
+export interface Section {
+  type: SectionType;
+  // Header as written, e.g. "FINAL DIAGNOSIS"; null for preamble/body
+  title: string | null;
+  // Whole section including the header
+  start: number;
+  end: number;
+  // Section content after the header
+  contentStart: number;
+  text: string;
+}
+
+const SECTION_TITLES: Array<[SectionType, string[]]> = [
+  ["history", ["clinical history", "history of present illness", "hpi", "past medical history", "pmh", "history", "indication", "clinical information", "family history", "social history"]],
+  ["specimen", ["specimens?", "specimen submitted"]],
+  ["gross", ["gross description", "gross examination", "gross"]],
+  ["microscopic", ["microscopic description", "microscopic examination", "microscopic", "histology"]],
+  ["findings", ["findings", "physical examination", "examination", "exam", "results", "imaging"]],
+  ["diagnosis", ["final diagnosis", "pathologic diagnosis", "diagnosis", "diagnoses"]],
+  ["impression", ["impression", "assessment", "assessment and plan", "conclusion", "summary"]],
+  ["biomarkers", ["receptor status", "biomarkers?", "immunohistochemistry", "ihc", "prognostic markers"]],
+  ["medications", ["medications?", "current medications", "meds"]],
+  ["plan", ["plan", "treatment plan", "recommendations?", "follow-up", "disposition"]],
+];
+
+// Longest titles first so "final diagnosis" wins over "diagnosis"
+const TITLES = SECTION_TITLES
+  .flatMap(([type, titles]) => titles.map((title) => ({ type, title })))
+  .sort((a, b) => b.title.length - a.title.length);
+
+const HEADER_PATTERN = new RegExp(
+  `(?:^|\\n|(?<=[.!?]\\s))[ \\t]*(${TITLES.map((t) => t.title).join("|")}|[A-Z][A-Z /&-]{2,40})[ \\t]*:`,
+  "gi",
+);
+
+function sectionType(title: string): SectionType {
+  const normalized = title.trim().toLowerCase();
+  const match = TITLES.find((t) => new RegExp(`^(?:${t.title})$`).test(normalized));
+  return match ? match.type : "other";
+}
+
+export function segmentSections(text: string): Section[] {
+  const headers: Array<{ title: string; start: number; contentStart: number }> = [];
+
+  for (const match of text.matchAll(HEADER_PATTERN)) {
+    const title = match[1];
+    // Unknown titles only count when written in capitals ("ADDENDUM:"), not "Note that:"
+    if (sectionType(title) === "other" && title !== title.toUpperCase()) continue;
+    const start = (match.index ?? 0) + match[0].indexOf(title);
+    headers.push({ title: title.trim(), start, contentStart: (match.index ?? 0) + match[0].length });
+  }
+
+  if (headers.length === 0) {
+    return [{ type: "body", title: null, start: 0, end: text.length, contentStart: 0, text }];
+  }
+
+  const sections: Section[] = [];
+  if (text.slice(0, headers[0].start).trim()) {
+    sections.push({ type: "preamble", title: null, start: 0, end: headers[0].start, contentStart: 0, text: text.slice(0, headers[0].start) });
+  }
+
+  headers.forEach((header, idx) => {
+    const end = idx + 1 < headers.length ? headers[idx + 1].start : text.length;
+    sections.push({
+      type: sectionType(header.title),
+      title: header.title,
+      start: header.start,
+      end,
+      contentStart: header.contentStart,
+      text: text.slice(header.contentStart, end),
+    });
+  });
+
+  return sections;
+}
+
+export function sectionAt(sections: Section[], offset: number): Section | undefined {
+  return sections.find((s) => offset >= s.start && offset < s.end);
+}
+
+// Section list without the text, for responses
+export function describeSections(sections: Section[]) {
+  return sections.map(({ type, title, start, end }) => ({ type, title, start, end }));
+}
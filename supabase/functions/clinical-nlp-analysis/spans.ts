@@ -0,0 +1,99 @@
+/**
+ * Span repair for token-classification output.
+ *
+ * Even with aggregation, the Inference API returns tokenizer artifacts:
+ * WordPiece fragments ("tam" + "##oxifen"), one entity split into two groups
+ * of the same type ("ac" + "t" for "AC-T"), spans with a leading space or
+ * trailing punctuation (" fever,"), lowercased words from uncased models and
+ * overlapping spans. repairSpans() works on offsets only:
+ * 1. trim whitespace and punctuation from both ends
+ * 2. merge same-type neighbours that are fragments of one word, or joined by
+ *    nothing, a hyphen or a slash
+ * 3. widen spans that still cut through a word to the word boundaries
+ * 4. reconcile overlaps: the longer span wins, then the more confident one
+ * 5. re-derive `text` from the input, so it matches `start`/`end` exactly
+ */
+
+export interface RawEntity {
+  text: string;
+  type: string;
+  confidence: number;
+  start: number;
+  end: number;
+}
+
+const LEADING_JUNK = /[\s.,;:!?)\]}"'`]/;
+const TRAILING_JUNK = /[\s.,;:!?([{"'`]/;
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+// Gaps that still belong to one entity ("AC-T", "ER/PR")
+const JOINING_GAP = /^[-/]?$/;
+
+function isWordChar(char: string | undefined) {
+  return char !== undefined && WORD_CHAR.test(char);
+}
+
+function trim<T extends RawEntity>(text: string, entity: T): T | null {
+  let { start, end } = entity;
+  while (start < end && LEADING_JUNK.test(text[start])) start++;
+  while (end > start && TRAILING_JUNK.test(text[end - 1])) end--;
+  // A closing bracket is only kept when the span opens it too: "(3+)" but not "3+)"
+  while (end > start && /[)\]]/.test(text[end - 1]) && !/[([]/.test(text.slice(start, end - 1))) end--;
+  return end > start ? { ...entity, start, end } : null;
+}
+
+// Starts inside a word: "##oxifen", or offsets that begin mid-word
+function isFragment(text: string, entity: RawEntity) {
+  return entity.text.trim().startsWith("##") || (isWordChar(text[entity.start - 1]) && isWordChar(text[entity.start]));
+}
+
+function mergeFragments<T extends RawEntity>(text: string, entities: T[]): T[] {
+  const merged: T[] = [];
+  for (const entity of entities) {
+    const previous = merged[merged.length - 1];
+    const gap = previous ? text.slice(previous.end, entity.start) : null;
+    const joins = previous && previous.type === entity.type && gap !== null && entity.start >= previous.end &&
+      (JOINING_GAP.test(gap) || (/^[ \t]$/.test(gap) && isFragment(text, entity)));
+    if (!joins) {
+      merged.push(entity);
+      continue;
+    }
+    // Confidence of the merged span is the length-weighted mean of its parts
+    const previousLength = previous.end - previous.start;
+    const length = entity.end - entity.start;
+    merged[merged.length - 1] = {
+      ...previous,
+      end: entity.end,
+      confidence: Number(((previous.confidence * previousLength + entity.confidence * length) / (previousLength + length)).toFixed(4)),
+    };
+  }
+  return merged;
+}
+
+function widenToWords<T extends RawEntity>(text: string, entity: T): T {
+  let { start, end } = entity;
+  while (start > 0 && isWordChar(text[start - 1]) && isWordChar(text[start])) start--;
+  while (end < text.length && isWordChar(text[end - 1]) && isWordChar(text[end])) end++;
+  return { ...entity, start, end };
+}
+
+function reconcileOverlaps<T extends RawEntity>(entities: T[]): T[] {
+  const ranked = [...entities].sort((a, b) => (b.end - b.start) - (a.end - a.start) || b.confidence - a.confidence);
+  const kept: T[] = [];
+  for (const entity of ranked) {
+    if (!kept.some((k) => entity.start < k.end && entity.end > k.start)) kept.push(entity);
+  }
+  return kept;
+}
+
+export function repairSpans<T extends RawEntity>(text: string, entities: T[]): T[] {
+  const trimmed = entities
+    .map((e) => trim(text, e))
+    .filter((e): e is T => e !== null)
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const repaired = reconcileOverlaps(mergeFragments(text, trimmed).map((e) => widenToWords(text, e)));
+
+  return repaired
+    .sort((a, b) => a.start - b.start)
+    .map((e) => ({ ...e, text: text.slice(e.start, e.end) }));
+}
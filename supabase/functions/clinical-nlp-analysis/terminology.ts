@@ -0,0 +1,126 @@
+/**
+ * Terminology normalization.
+ *
+ * Maps entity text to concept codes from the vocabularies bundled in
+ * vocabularies/: a breast-oncology subset of SNOMED CT, RxNorm ingredients
+ * (brand names as synonyms) and ICD-O-3 morphology. Which vocabularies are
+ * searched depends on the entity type, e.g. Medication -> RxNorm, disease
+ * tags -> ICD-O-3 then SNOMED CT.
+ *
+ * Matching is tried in order: exact (preferred name), synonym, then fuzzy
+ * (edit-distance similarity, catches misspellings). A trailing plural "s" is
+ * ignored for exact and synonym matches ("fevers" -> Fever). Entities
+ * without a match above FUZZY_THRESHOLD keep `concept: null`.
+ */
+
+import icdO3 from "./vocabularies/icd-o-3.json" with { type: "json" };
+import rxnorm from "./vocabularies/rxnorm.json" with { type: "json" };
+import snomed from "./vocabularies/snomed-ct-subset.json" with { type: "json" };
+
+export type CodeSystem = "SNOMED CT" | "RxNorm" | "ICD-O-3";
+
+export type MatchType = "exact" | "synonym" | "fuzzy";
+
+interface Vocabulary {
+  system: CodeSystem;
+  version: string;
+  concepts: Array<{ code: string; display: string; synonyms: string[] }>;
+}
+
+export interface ConceptMatch {
+  system: CodeSystem;
+  code: string;
+  display: string;
+  match: MatchType;
+  // 1 for exact / synonym, edit-distance similarity for fuzzy
+  score: number;
+}
+
+const VOCABULARIES = [snomed, rxnorm, icdO3] as Vocabulary[];
+
+// Vocabularies searched per model tag, in order of preference; other tags are not normalized
+const SYSTEMS_BY_TYPE: Record<string, CodeSystem[]> = {
+  // d4data/biomedical-ner-all
+  Disease_disorder: ["ICD-O-3", "SNOMED CT"],
+  Sign_symptom: ["SNOMED CT"],
+  Medication: ["RxNorm"],
+  Therapeutic_procedure: ["SNOMED CT"],
+  Diagnostic_procedure: ["SNOMED CT"],
+  Biological_structure: ["SNOMED CT"],
+  // i2b2 2010 (ClinicalBERT)
+  problem: ["ICD-O-3", "SNOMED CT"],
+  treatment: ["RxNorm", "SNOMED CT"],
+  test: ["SNOMED CT"],
+  // BENT (PubMedBERT)
+  Disease: ["ICD-O-3", "SNOMED CT"],
+};
+
+const FUZZY_THRESHOLD = 0.85;
+// Shorter terms are too easy to confuse ("DM" vs "DCIS") to match fuzzily
+const FUZZY_MIN_LENGTH = 5;
+
+function normalizeTerm(value: string) {
+  return value.toLowerCase().replace(/'s\b/g, "").replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+// Terms are normalized once when the module loads
+const INDEX = VOCABULARIES.map((vocabulary) => ({
+  system: vocabulary.system,
+  concepts: vocabulary.concepts.map((concept) => ({
+    ...concept,
+    name: normalizeTerm(concept.display),
+    synonymNames: concept.synonyms.map(normalizeTerm),
+  })),
+}));
+
+function levenshtein(a: string, b: string) {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function similarity(a: string, b: string) {
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+}
+
+export function normalizeConcept(text: string, type: string): ConceptMatch | null {
+  const systems = SYSTEMS_BY_TYPE[type];
+  const term = normalizeTerm(text);
+  if (!systems || !term) return null;
+
+  const vocabularies = systems.map((system) => INDEX.find((v) => v.system === system)!);
+  const forms = [term, term.replace(/(?<=\w{3})s$/, "")];
+
+  for (const match of ["exact", "synonym"] as const) {
+    for (const vocabulary of vocabularies) {
+      const concept = vocabulary.concepts.find((c) => forms.some((form) => match === "exact" ? c.name === form : c.synonymNames.includes(form)));
+      if (concept) return { system: vocabulary.system, code: concept.code, display: concept.display, match, score: 1 };
+    }
+  }
+
+  if (term.length < FUZZY_MIN_LENGTH) return null;
+
+  let best: ConceptMatch | null = null;
+  for (const vocabulary of vocabularies) {
+    for (const concept of vocabulary.concepts) {
+      for (const name of [concept.name, ...concept.synonymNames]) {
+        if (name.length < FUZZY_MIN_LENGTH) continue;
+        const score = similarity(term, name);
+        if (score >= FUZZY_THRESHOLD && (!best || score > best.score)) {
+          best = { system: vocabulary.system, code: concept.code, display: concept.display, match: "fuzzy", score: Number(score.toFixed(4)) };
+        }
+      }
+    }
+  }
+  return best;
+}
+
+export function normalizeEntities<T extends { text: string; type: string }>(entities: T[]) {
+  return entities.map((entity) => ({ ...entity, concept: normalizeConcept(entity.text, entity.type) }));
+}
@@ -4,6 +4,7 @@ create extension if not exists vector;
 -- Table to store individual clinical analysis results
 create table if not exists clinical_analyses (
   id uuid default gen_random_uuid() primary key,
+  user_id uuid default auth.uid() references auth.users(id) on delete set null, -- owner (see RLS policies)
   created_at timestamp with time zone default timezone('utc'::text, now()) not null,
   input_text text not null,
   model_used text not null,
@@ -15,18 +16,41 @@ create table if not exists clinical_analyses (
 -- Table to store extracted entities for analytics
 create table if not exists extracted_entities (
   id uuid default gen_random_uuid() primary key,
+  user_id uuid default auth.uid() references auth.users(id) on delete set null,
   created_at timestamp with time zone default timezone('utc'::text, now()) not null,
-  analysis_id uuid references clinical_analyses(id),
+  analysis_id uuid references clinical_analyses(id) on delete cascade,
   entity_text text not null,
   entity_type text not null,
   confidence float,
   start_pos int,
-  end_pos int
+  end_pos int,
+  -- Normalized concept from the local vocabularies (see terminology.ts in the edge function)
+  concept_system text, -- 'SNOMED CT', 'RxNorm', 'ICD-O-3'
+  concept_code text,
+  concept_display text,
+  concept_match text, -- 'exact', 'synonym', 'fuzzy'
+  concept_score float
 );
 
+-- Concept columns for databases created before terminology normalization
+alter table extracted_entities add column if not exists concept_system text;
+alter table extracted_entities add column if not exists concept_code text;
+alter table extracted_entities add column if not exists concept_display text;
+alter table extracted_entities add column if not exists concept_match text;
+alter table extracted_entities add column if not exists concept_score float;
+
+-- Entities go with their analysis (older databases were created without the cascade)
+alter table extracted_entities drop constraint if exists extracted_entities_analysis_id_fkey;
+alter table extracted_entities add constraint extracted_entities_analysis_id_fkey
+  foreign key (analysis_id) references clinical_analyses(id) on delete cascade;
+
+create index if not exists extracted_entities_concept_idx on extracted_entities (concept_system, concept_code);
+create index if not exists extracted_entities_analysis_idx on extracted_entities (analysis_id);
+
 -- Table to track batch processing jobs
 create table if not exists batch_analyses (
   id uuid default gen_random_uuid() primary key,
+  user_id uuid default auth.uid() references auth.users(id) on delete set null,
   created_at timestamp with time zone default timezone('utc'::text, now()) not null,
   batch_name text,
   total_documents int,
@@ -39,7 +63,7 @@ create table if not exists batch_analyses (
 -- Table to track aggregate model performance
 create table if not exists model_performance (
   id uuid default gen_random_uuid() primary key,
-  model_name text unique not null,
+  model_name text not null,
   analysis_count int default 0,
   avg_confidence float default 0,
   total_entities_extracted int default 0,
@@ -47,44 +71,733 @@ create table if not exists model_performance (
   updated_at timestamp with time zone default timezone('utc'::text, now())
 );
 
--- Function to safely update model stats (called via RPC)
+-- Analyses that reported a confidence; avg_confidence is averaged over these only
+alter table model_performance add column if not exists confidence_samples int default 0;
+
+-- Owners for databases created before sign-in. Rows stored before then keep a null
+-- user_id and are no longer visible to anyone but the service role
+alter table clinical_analyses add column if not exists user_id uuid default auth.uid() references auth.users(id) on delete set null;
+alter table extracted_entities add column if not exists user_id uuid default auth.uid() references auth.users(id) on delete set null;
+alter table batch_analyses add column if not exists user_id uuid default auth.uid() references auth.users(id) on delete set null;
+
+-- Project data outlives the account of whoever stored it (older databases deleted it with the account)
+alter table clinical_analyses drop constraint if exists clinical_analyses_user_id_fkey;
+alter table clinical_analyses add constraint clinical_analyses_user_id_fkey
+  foreign key (user_id) references auth.users(id) on delete set null;
+alter table extracted_entities drop constraint if exists extracted_entities_user_id_fkey;
+alter table extracted_entities add constraint extracted_entities_user_id_fkey
+  foreign key (user_id) references auth.users(id) on delete set null;
+alter table batch_analyses drop constraint if exists batch_analyses_user_id_fkey;
+alter table batch_analyses add constraint batch_analyses_user_id_fkey
+  foreign key (user_id) references auth.users(id) on delete set null;
+
+create index if not exists clinical_analyses_user_idx on clinical_analyses (user_id, created_at desc);
+create index if not exists extracted_entities_user_idx on extracted_entities (user_id);
+create index if not exists batch_analyses_user_idx on batch_analyses (user_id);
+
+-- Workspaces -> projects -> documents. Members hold one role per workspace:
+--   owner:     manages members and projects, may change or delete any row
+--   annotator: stores analyses, batches and datasets, changes their own rows
+--   viewer:    read-only
+-- Analyses, batches and datasets belong to a project; user_id records who created them.
+create table if not exists workspaces (
+  id uuid default gen_random_uuid() primary key,
+  name text not null,
+  created_by uuid default auth.uid() references auth.users(id) on delete set null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create table if not exists workspace_members (
+  workspace_id uuid references workspaces(id) on delete cascade not null,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  role text not null check (role in ('owner', 'annotator', 'viewer')),
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  primary key (workspace_id, user_id)
+);
+
+create index if not exists workspace_members_user_idx on workspace_members (user_id);
+
+create table if not exists projects (
+  id uuid default gen_random_uuid() primary key,
+  workspace_id uuid references workspaces(id) on delete cascade not null,
+  name text not null,
+  description text,
+  created_by uuid default auth.uid() references auth.users(id) on delete set null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index if not exists projects_workspace_idx on projects (workspace_id);
+
+-- One row per distinct (de-identified) text in a project; its analyses point here
+create table if not exists documents (
+  id uuid default gen_random_uuid() primary key,
+  project_id uuid references projects(id) on delete cascade not null,
+  user_id uuid default auth.uid() references auth.users(id) on delete set null,
+  title text not null,
+  content_hash text not null, -- content_hash(input_text), see below
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique (project_id, content_hash)
+);
+
+-- Training datasets registered from the Fine-Tune tab (metadata only, not the file)
+create table if not exists datasets (
+  id uuid default gen_random_uuid() primary key,
+  project_id uuid references projects(id) on delete cascade not null,
+  user_id uuid default auth.uid() references auth.users(id) on delete set null,
+  name text not null,
+  file_name text,
+  size_bytes bigint,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index if not exists datasets_project_idx on datasets (project_id);
+
+alter table clinical_analyses add column if not exists project_id uuid references projects(id) on delete cascade;
+alter table clinical_analyses add column if not exists document_id uuid references documents(id) on delete set null;
+alter table extracted_entities add column if not exists project_id uuid references projects(id) on delete cascade;
+alter table batch_analyses add column if not exists project_id uuid references projects(id) on delete cascade;
+
+create index if not exists clinical_analyses_project_idx on clinical_analyses (project_id, created_at desc);
+create index if not exists clinical_analyses_document_idx on clinical_analyses (document_id);
+create index if not exists extracted_entities_project_idx on extracted_entities (project_id);
+create index if not exists batch_analyses_project_idx on batch_analyses (project_id);
+
+-- Stats are kept per project and model (per user before projects existed)
+alter table model_performance drop constraint if exists model_performance_model_name_key;
+drop index if exists model_performance_user_model_idx;
+drop policy if exists "Owners select models" on model_performance;
+alter table model_performance drop column if exists user_id;
+alter table model_performance add column if not exists project_id uuid references projects(id) on delete cascade;
+create unique index if not exists model_performance_project_model_idx on model_performance (project_id, model_name);
+
+-- Identifies a document by its text within a project
+create or replace function content_hash(_text text)
+returns text
+language sql
+immutable
+as $$
+  select encode(sha256(convert_to(_text, 'UTF8')), 'hex');
+$$;
+
+-- The caller's role in a workspace / in a project's workspace, null for non-members.
+-- Security definer so the policies below can use them without recursing into
+-- workspace_members' own policies
+create or replace function workspace_role(_workspace_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from workspace_members where workspace_id = _workspace_id and user_id = auth.uid();
+$$;
+
+create or replace function project_role(_project_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select m.role
+  from projects p
+  join workspace_members m on m.workspace_id = p.workspace_id and m.user_id = auth.uid()
+  where p.id = _project_id;
+$$;
+
+-- Rows stored before projects existed: every user who has some gets a workspace with a
+-- "General" project holding them, plus documents for the texts. Rows without a user_id
+-- (stored before sign-in) stay unassigned.
+do $$
+declare
+  _owner uuid;
+  _workspace_id uuid;
+  _project_id uuid;
+begin
+  for _owner in
+    select user_id from clinical_analyses where project_id is null and user_id is not null
+    union
+    select user_id from batch_analyses where project_id is null and user_id is not null
+  loop
+    insert into workspaces (name, created_by) values ('My workspace', _owner) returning id into _workspace_id;
+    insert into workspace_members (workspace_id, user_id, role) values (_workspace_id, _owner, 'owner');
+    insert into projects (workspace_id, name, created_by) values (_workspace_id, 'General', _owner) returning id into _project_id;
+    update clinical_analyses set project_id = _project_id where user_id = _owner and project_id is null;
+    update extracted_entities set project_id = _project_id where user_id = _owner and project_id is null;
+    update batch_analyses set project_id = _project_id where user_id = _owner and project_id is null;
+  end loop;
+
+  insert into documents (project_id, user_id, title, content_hash)
+  select distinct on (project_id, content_hash(input_text))
+    project_id, user_id, left(split_part(btrim(input_text), E'\n', 1), 80), content_hash(input_text)
+  from clinical_analyses
+  where document_id is null and project_id is not null
+  order by project_id, content_hash(input_text), created_at
+  on conflict (project_id, content_hash) do nothing;
+
+  update clinical_analyses a set document_id = d.id
+  from documents d
+  where a.document_id is null and d.project_id = a.project_id and d.content_hash = content_hash(a.input_text);
+
+  -- Per-user stats can't be split by project: rebuild them from the analyses
+  delete from model_performance where project_id is null;
+  insert into model_performance (project_id, model_name, analysis_count, avg_confidence, confidence_samples, total_entities_extracted, last_used, updated_at)
+  select project_id, model_used, count(*), coalesce(avg(confidence_score), 0), count(confidence_score),
+    sum(coalesce((results->>'entityCount')::int, 0)), max(created_at), now()
+  from clinical_analyses
+  where project_id is not null
+  group by project_id, model_used
+  on conflict (project_id, model_name) do nothing;
+end;
+$$;
+
+-- Creates a workspace with the caller as owner and its first project. Returns the project id.
+create or replace function create_workspace(_name text, _project_name text default 'General')
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _workspace_id uuid;
+  _project_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to create a workspace';
+  end if;
+  insert into workspaces (name, created_by) values (_name, auth.uid()) returning id into _workspace_id;
+  insert into workspace_members (workspace_id, user_id, role) values (_workspace_id, auth.uid(), 'owner');
+  insert into projects (workspace_id, name, created_by) values (_workspace_id, _project_name, auth.uid()) returning id into _project_id;
+  return _project_id;
+end;
+$$;
+
+-- First sign-in: every user starts with a workspace of their own. Locked per user, so
+-- concurrent calls (effects run twice, several tabs) create it once. Returns the first
+-- project of the caller's workspaces, null when they are a member with no projects.
+create or replace function ensure_default_workspace()
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _project_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to create a workspace';
+  end if;
+  perform pg_advisory_xact_lock(hashtext('ensure_default_workspace:' || auth.uid()::text));
+  if exists (select 1 from workspace_members where user_id = auth.uid()) then
+    select p.id into _project_id
+    from projects p
+    join workspace_members m on m.workspace_id = p.workspace_id
+    where m.user_id = auth.uid()
+    order by p.created_at
+    limit 1;
+    return _project_id;
+  end if;
+  return create_workspace('My workspace');
+end;
+$$;
+
+-- Members with their email (auth.users is not readable by clients)
+create or replace function list_workspace_members(_workspace_id uuid)
+returns table (user_id uuid, email text, role text, created_at timestamp with time zone)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if workspace_role(_workspace_id) is null then
+    raise exception 'Not a member of this workspace';
+  end if;
+  return query
+    select m.user_id, u.email::text, m.role, m.created_at
+    from workspace_members m
+    join auth.users u on u.id = m.user_id
+    where m.workspace_id = _workspace_id
+    order by m.created_at;
+end;
+$$;
+
+-- Owners add a registered user by email. Roles of existing members change through
+-- set_workspace_member_role(), which keeps the last owner
+create or replace function add_workspace_member(_workspace_id uuid, _email text, _role text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _user_id uuid;
+begin
+  if workspace_role(_workspace_id) is distinct from 'owner' then
+    raise exception 'Only workspace owners can add members';
+  end if;
+  select id into _user_id from auth.users where lower(email) = lower(btrim(_email));
+  if _user_id is null then
+    raise exception 'No user is registered with %', _email;
+  end if;
+  insert into workspace_members (workspace_id, user_id, role) values (_workspace_id, _user_id, _role)
+  on conflict (workspace_id, user_id) do nothing;
+  if not found then
+    raise exception '% is already a member of this workspace', _email;
+  end if;
+  return _user_id;
+end;
+$$;
+
+-- Owners change a member's role, or remove the member with a null role. A workspace
+-- always keeps at least one owner.
+create or replace function set_workspace_member_role(_workspace_id uuid, _user_id uuid, _role text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if workspace_role(_workspace_id) is distinct from 'owner' then
+    raise exception 'Only workspace owners can change members';
+  end if;
+  if _role is distinct from 'owner' and not exists (
+    select 1 from workspace_members
+    where workspace_id = _workspace_id and role = 'owner' and user_id <> _user_id
+  ) then
+    raise exception 'A workspace needs at least one owner';
+  end if;
+  if _role is null then
+    delete from workspace_members where workspace_id = _workspace_id and user_id = _user_id;
+  else
+    update workspace_members set role = _role where workspace_id = _workspace_id and user_id = _user_id;
+  end if;
+end;
+$$;
+
+revoke execute on function create_workspace(text, text) from public, anon;
+revoke execute on function ensure_default_workspace() from public, anon;
+revoke execute on function list_workspace_members(uuid) from public, anon;
+revoke execute on function add_workspace_member(uuid, text, text) from public, anon;
+revoke execute on function set_workspace_member_role(uuid, uuid, text) from public, anon;
+grant execute on function create_workspace(text, text) to authenticated;
+grant execute on function ensure_default_workspace() to authenticated;
+grant execute on function list_workspace_members(uuid) to authenticated;
+grant execute on function add_workspace_member(uuid, text, text) to authenticated;
+grant execute on function set_workspace_member_role(uuid, uuid, text) to authenticated;
+
+-- Function to safely update model stats. Called by the trigger below only: clients
+-- cannot execute it, so the stats always match the stored analyses
+drop function if exists update_model_stats(text, float, int);
+drop function if exists update_model_stats(uuid, text, float, int);
+
 create or replace function update_model_stats(
+  _project_id uuid,
   _model_name text,
   _confidence float,
   _entity_count int
 )
 returns void
 language plpgsql
+security definer
+set search_path = public
 as $$
 begin
-  insert into model_performance (model_name, analysis_count, avg_confidence, total_entities_extracted, last_used, updated_at)
-  values (_model_name, 1, _confidence, _entity_count, now(), now())
-  on conflict (model_name)
+  insert into model_performance (project_id, model_name, analysis_count, avg_confidence, confidence_samples, total_entities_extracted, last_used, updated_at)
+  values (_project_id, _model_name, 1, coalesce(_confidence, 0), case when _confidence is null then 0 else 1 end, _entity_count, now(), now())
+  on conflict (project_id, model_name)
   do update set
     analysis_count = model_performance.analysis_count + 1,
-    avg_confidence = (model_performance.avg_confidence * model_performance.analysis_count + _confidence) / (model_performance.analysis_count + 1),
+    -- Summaries have no confidence: they count as an analysis but leave the average alone
+    avg_confidence = case
+      when _confidence is null then model_performance.avg_confidence
+      else (model_performance.avg_confidence * model_performance.confidence_samples + _confidence) / (model_performance.confidence_samples + 1)
+    end,
+    confidence_samples = model_performance.confidence_samples + case when _confidence is null then 0 else 1 end,
     total_entities_extracted = model_performance.total_entities_extracted + _entity_count,
     last_used = now(),
     updated_at = now();
 end;
 $$;
 
--- RLS Policies (Enable access for anonymous users for this demo)
+revoke execute on function update_model_stats(uuid, text, float, int) from public, anon, authenticated;
+
+-- Every stored analysis (NER, Summarization, QA, Comparison, Batch NER) updates its project's
+-- stats for its model, whichever way it was inserted. Entity counts come from the stored results.
+create or replace function record_model_stats()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.project_id is not null then
+    perform update_model_stats(new.project_id, new.model_used, new.confidence_score, coalesce((new.results->>'entityCount')::int, 0));
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists clinical_analyses_model_stats on clinical_analyses;
+create trigger clinical_analyses_model_stats
+  after insert on clinical_analyses
+  for each row execute function record_model_stats();
+
+-- Earlier versions of the app called an ad-hoc execute_sql(query) RPC with values interpolated
+-- into the SQL. Remove it if a database still has one.
+drop function if exists execute_sql(text);
+
+-- Stores an analysis and its extracted entities in a project in one transaction; the model
+-- stats follow from the clinical_analyses trigger in the same transaction (called via RPC
+-- from src/lib/supabase.ts saveAnalysis). The text is filed under the project's document
+-- with the same content, created on first use and titled with the text's first line (file
+-- names are not used: they are not de-identified).
+-- Runs as the caller, so the rows get their user_id from auth.uid() and the project
+-- policies apply (viewers cannot save). Returns the new analysis id.
+-- _entities is a JSON array of NER entities as the edge function returns them:
+--   [{ "text", "type", "confidence", "start", "end", "concept": { "system", "code", "display", "match", "score" } | null }]
+drop function if exists save_analysis(text, text, text, jsonb, float, jsonb);
+
+create or replace function save_analysis(
+  _project_id uuid,
+  _input_text text,
+  _model_used text,
+  _analysis_type text,
+  _results jsonb,
+  _confidence_score float default null,
+  _entities jsonb default '[]'::jsonb
+)
+returns uuid
+language plpgsql
+as $$
+declare
+  _document_id uuid;
+  _analysis_id uuid;
+begin
+  insert into documents (project_id, title, content_hash)
+  values (
+    _project_id,
+    left(split_part(btrim(_input_text), E'\n', 1), 80),
+    content_hash(_input_text)
+  )
+  on conflict (project_id, content_hash) do nothing;
+  select id into _document_id from documents where project_id = _project_id and content_hash = content_hash(_input_text);
+
+  insert into clinical_analyses (project_id, document_id, input_text, model_used, analysis_type, results, confidence_score)
+  values (_project_id, _document_id, _input_text, _model_used, _analysis_type, _results, _confidence_score)
+  returning id into _analysis_id;
+
+  insert into extracted_entities (
+    project_id, analysis_id, entity_text, entity_type, confidence, start_pos, end_pos,
+    concept_system, concept_code, concept_display, concept_match, concept_score
+  )
+  select
+    _project_id, _analysis_id, e->>'text', e->>'type', (e->>'confidence')::float, (e->>'start')::int, (e->>'end')::int,
+    e->'concept'->>'system', e->'concept'->>'code', e->'concept'->>'display', e->'concept'->>'match',
+    (e->'concept'->>'score')::float
+  from jsonb_array_elements(_entities) as e;
+
+  return _analysis_id;
+end;
+$$;
+
+-- Result cache of the edge function (see cache.ts). Keyed by a hash of the de-identified
+-- text, task, model and parameters; the text itself is not stored
+create table if not exists analysis_cache (
+  key text primary key,
+  user_id uuid references auth.users(id) on delete cascade, -- null for anon-key callers
+  task text not null, -- 'ner', 'summarization', 'qa', 'comparison'
+  model_id text not null,
+  deidentification text not null, -- 'redact', 'mask', 'surrogate'
+  result jsonb not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  expires_at timestamp with time zone not null
+);
+
+alter table analysis_cache add column if not exists user_id uuid references auth.users(id) on delete cascade;
+
+create index if not exists analysis_cache_task_model_idx on analysis_cache (task, model_id);
+
+-- Admin invalidation: all entries, or only those of a task and/or model. Returns the number removed.
+--   select invalidate_analysis_cache();                        -- everything
+--   select invalidate_analysis_cache('ner', 'd4data/biomedical-ner-all');
+create or replace function invalidate_analysis_cache(
+  _task text default null,
+  _model_id text default null
+)
+returns int
+language plpgsql
+as $$
+declare
+  removed int;
+begin
+  -- Comparison entries list every model, comma-separated; expired entries always go
+  delete from analysis_cache
+  where ((_task is null or task = _task)
+      and (_model_id is null or _model_id = any(string_to_array(model_id, ','))))
+    or expires_at < now();
+  get diagnostics removed = row_count;
+  return removed;
+end;
+$$;
+
+-- Only the service role (edge function, admin scripts) may read or clear the cache
+revoke execute on function invalidate_analysis_cache(text, text) from public, anon, authenticated;
+
+-- Audit trail: who ran, saved, viewed, exported or deleted what, and when. Written by the
+-- triggers below, by the edge function (service role, see audit.ts) and by log_audit_event()
+-- for what only the app sees. Texts are identified by input_hash, the content_hash() of the
+-- de-identified text (the same as documents.content_hash); the text itself is not stored.
+-- No foreign keys: events outlive the users, projects and rows they are about.
+create table if not exists audit_events (
+  id bigint generated always as identity primary key,
+  occurred_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  actor_id uuid, -- auth.uid(), null for anon-key callers and the service role
+  actor_email text,
+  action text not null check (action in ('analyze', 'save', 'view_history', 'export', 'delete')),
+  source text not null check (source in ('trigger', 'edge_function', 'app')),
+  project_id uuid,
+  target_type text, -- 'analysis', 'document', 'batch', 'dataset', 'project', 'audit'
+  target_id uuid,
+  input_hash text,
+  parameters jsonb default '{}'::jsonb not null
+);
+
+create index if not exists audit_events_project_idx on audit_events (project_id, occurred_at desc);
+create index if not exists audit_events_actor_idx on audit_events (actor_id, occurred_at desc);
+create index if not exists audit_events_input_hash_idx on audit_events (input_hash);
+
+-- Events are stamped by the database: the time, the actor's email, and no project the actor
+-- is not a member of (the edge function takes the project id from the request)
+create or replace function stamp_audit_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  new.occurred_at := now();
+  new.actor_email := (select email from auth.users where id = new.actor_id);
+  if new.source <> 'trigger' and new.project_id is not null and not exists (
+    select 1
+    from projects p
+    join workspace_members m on m.workspace_id = p.workspace_id
+    where p.id = new.project_id and m.user_id = new.actor_id
+  ) then
+    new.project_id := null;
+  end if;
+  return new;
+end;
+$$;
+
+-- Append-only, for the service role too
+create or replace function reject_audit_change()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'audit_events is append-only';
+end;
+$$;
+
+drop trigger if exists audit_events_stamp on audit_events;
+create trigger audit_events_stamp
+  before insert on audit_events
+  for each row execute function stamp_audit_event();
+
+drop trigger if exists audit_events_immutable on audit_events;
+create trigger audit_events_immutable
+  before update or delete on audit_events
+  for each row execute function reject_audit_change();
+
+drop trigger if exists audit_events_no_truncate on audit_events;
+create trigger audit_events_no_truncate
+  before truncate on audit_events
+  for each statement execute function reject_audit_change();
+
+-- Saved analyses and deleted project data, whichever way it happens (app, RPC, cascade from a
+-- deleted project or user). Texts and results are left out of the parameters.
+create or replace function audit_row_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _row jsonb;
+begin
+  if tg_op = 'DELETE' then
+    _row := to_jsonb(old);
+  else
+    _row := to_jsonb(new);
+  end if;
+
+  insert into audit_events (actor_id, action, source, project_id, target_type, target_id, input_hash, parameters)
+  values (
+    auth.uid(),
+    case tg_op when 'DELETE' then 'delete' else 'save' end,
+    'trigger',
+    coalesce(_row->>'project_id', case when tg_table_name = 'projects' then _row->>'id' end)::uuid,
+    tg_argv[0],
+    (_row->>'id')::uuid,
+    coalesce(_row->>'content_hash', content_hash(_row->>'input_text')),
+    _row - 'id' - 'project_id' - 'input_text' - 'results' - 'results_summary' - 'content_hash' - 'title'
+  );
+  return null;
+end;
+$$;
+
+drop trigger if exists clinical_analyses_audit on clinical_analyses;
+create trigger clinical_analyses_audit
+  after insert or delete on clinical_analyses
+  for each row execute function audit_row_change('analysis');
+
+drop trigger if exists documents_audit on documents;
+create trigger documents_audit
+  after delete on documents
+  for each row execute function audit_row_change('document');
+
+drop trigger if exists batch_analyses_audit on batch_analyses;
+create trigger batch_analyses_audit
+  after delete on batch_analyses
+  for each row execute function audit_row_change('batch');
+
+drop trigger if exists datasets_audit on datasets;
+create trigger datasets_audit
+  after delete on datasets
+  for each row execute function audit_row_change('dataset');
+
+drop trigger if exists projects_audit on projects;
+create trigger projects_audit
+  after delete on projects
+  for each row execute function audit_row_change('project');
+
+-- History views and exports happen in the app only; it logs them through this function, as
+-- the caller. Without a project (e.g. an export of the audit log across projects) the event
+-- is visible to the caller only. Other actions cannot be logged from the client.
+create or replace function log_audit_event(
+  _project_id uuid,
+  _action text,
+  _target_type text default null,
+  _target_id uuid default null,
+  _input_hash text default null,
+  _parameters jsonb default '{}'::jsonb
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if _action not in ('view_history', 'export') then
+    raise exception 'Only history views and exports can be logged from the app';
+  end if;
+  if _project_id is not null and project_role(_project_id) is null then
+    raise exception 'Not a member of this project';
+  end if;
+
+  insert into audit_events (actor_id, action, source, project_id, target_type, target_id, input_hash, parameters)
+  values (auth.uid(), _action, 'app', _project_id, _target_type, _target_id, _input_hash, coalesce(_parameters, '{}'::jsonb));
+end;
+$$;
+
+revoke execute on function log_audit_event(uuid, text, text, uuid, text, jsonb) from public, anon;
+grant execute on function log_audit_event(uuid, text, text, uuid, text, jsonb) to authenticated;
+
+-- RLS Policies: signed-in users (Supabase Auth) see the rows of the projects in their
+-- workspaces; what they may change depends on their role (see workspace_members above)
+alter table workspaces enable row level security;
+alter table workspace_members enable row level security;
+alter table projects enable row level security;
+alter table documents enable row level security;
+alter table datasets enable row level security;
 alter table clinical_analyses enable row level security;
 alter table extracted_entities enable row level security;
 alter table batch_analyses enable row level security;
 alter table model_performance enable row level security;
+-- No policies: analysis_cache is reachable with the service role key only
+alter table analysis_cache enable row level security;
+alter table audit_events enable row level security;
+
+-- Start from a clean slate so this file can be re-run; this also removes the open
+-- "Allow anonymous ..." policies of the anonymous demo and the per-user "Owners ..." ones
+do $$
+declare
+  _policy record;
+begin
+  for _policy in
+    select policyname, tablename from pg_policies
+    where schemaname = 'public'
+      and tablename in (
+        'workspaces', 'workspace_members', 'projects', 'documents', 'datasets',
+        'clinical_analyses', 'extracted_entities', 'batch_analyses', 'model_performance', 'audit_events'
+      )
+  loop
+    execute format('drop policy %I on %I', _policy.policyname, _policy.tablename);
+  end loop;
+end;
+$$;
+
+-- Workspaces are created with create_workspace(); members change through the functions above
+create policy "Members select workspaces" on workspaces for select to authenticated using (workspace_role(id) is not null);
+create policy "Owners update workspaces" on workspaces for update to authenticated using (workspace_role(id) = 'owner');
+create policy "Owners delete workspaces" on workspaces for delete to authenticated using (workspace_role(id) = 'owner');
+
+create policy "Members select members" on workspace_members for select to authenticated using (workspace_role(workspace_id) is not null);
 
-create policy "Allow anonymous inserts" on clinical_analyses for insert with check (true);
-create policy "Allow anonymous selects" on clinical_analyses for select using (true);
+create policy "Members select projects" on projects for select to authenticated using (workspace_role(workspace_id) is not null);
+create policy "Owners insert projects" on projects for insert to authenticated with check (workspace_role(workspace_id) = 'owner');
+create policy "Owners update projects" on projects for update to authenticated using (workspace_role(workspace_id) = 'owner') with check (workspace_role(workspace_id) = 'owner');
+create policy "Owners delete projects" on projects for delete to authenticated using (workspace_role(workspace_id) = 'owner');
+
+-- Project data: members read; owners and annotators add rows under their own user_id;
+-- owners change anything, annotators their own rows, which stay theirs and in their projects
+create policy "Members select documents" on documents for select to authenticated using (project_role(project_id) is not null);
+create policy "Editors insert documents" on documents for insert to authenticated with check (user_id = auth.uid() and project_role(project_id) in ('owner', 'annotator'));
+create policy "Editors update documents" on documents for update to authenticated
+  using (project_role(project_id) = 'owner' or (user_id = auth.uid() and project_role(project_id) = 'annotator'))
+  with check (project_role(project_id) = 'owner' or (user_id = auth.uid() and project_role(project_id) = 'annotator'));
+create policy "Editors delete documents" on documents for delete to authenticated
+  using (project_role(project_id) = 'owner' or (user_id = auth.uid() and project_role(project_id) = 'annotator'));
+
+create policy "Members select datasets" on datasets for select to authenticated using (project_role(project_id) is not null);
+create policy "Editors insert datasets" on datasets for insert to authenticated with check (user_id = auth.uid() and project_role(project_id) in ('owner', 'annotator'));
+create policy "Editors update datasets" on datasets for update to authenticated
+  using (project_role(project_id) = 'owner' or (user_id = auth.uid() and project_role(project_id) = 'annotator'))
+  with check (project_role(project_id) = 'owner' or (user_id = auth.uid() and project_role(project_id) = 'annotator'));
+create policy "Editors delete datasets" on datasets for delete to authenticated
+  using (project_role(project_id) = 'owner' or (user_id = auth.uid() and project_role(project_id) = 'annotator'));
+
+create policy "Members select analyses" on clinical_analyses for select to authenticated using (project_role(project_id) is not null);
+create policy "Editors insert analyses" on clinical_analyses for insert to authenticated with check (user_id = auth.uid() and project_role(project_id) in ('owner', 'annotator'));
+create policy "Editors update analyses" on clinical_analyses for update to authenticated
+  using (project_role(project_id) = 'owner' or (user_id = auth.uid() and project_role(project_id) = 'annotator'))
+  with check (project_role(project_id) = 'owner' or (user_id = auth.uid() and project_role(project_id) = 'annotator'));
+create policy "Editors delete analyses" on clinical_analyses for delete to authenticated
+  using (project_role(project_id) = 'owner' or (user_id = auth.uid() and project_role(project_id) = 'annotator'));
+
+-- Entities may only be attached to an analysis of the same project
+create policy "Members select entities" on extracted_entities for select to authenticated using (project_role(project_id) is not null);
+create policy "Editors insert entities" on extracted_entities for insert to authenticated with check (
+  user_id = auth.uid()
+  and project_role(project_id) in ('owner', 'annotator')
+  and exists (select 1 from clinical_analyses a where a.id = analysis_id and a.project_id = extracted_entities.project_id)
+);
+create policy "Editors delete entities" on extracted_entities for delete to authenticated
+  using (project_role(project_id) = 'owner' or (user_id = auth.uid() and project_role(project_id) = 'annotator'));
 
-create policy "Allow anonymous inserts entities" on extracted_entities for insert with check (true);
-create policy "Allow anonymous selects entities" on extracted_entities for select using (true);
+create policy "Members select batches" on batch_analyses for select to authenticated using (project_role(project_id) is not null);
+create policy "Editors insert batches" on batch_analyses for insert to authenticated with check (user_id = auth.uid() and project_role(project_id) in ('owner', 'annotator'));
+create policy "Editors update batches" on batch_analyses for update to authenticated
+  using (project_role(project_id) = 'owner' or (user_id = auth.uid() and project_role(project_id) = 'annotator'))
+  with check (project_role(project_id) = 'owner' or (user_id = auth.uid() and project_role(project_id) = 'annotator'));
+create policy "Editors delete batches" on batch_analyses for delete to authenticated
+  using (project_role(project_id) = 'owner' or (user_id = auth.uid() and project_role(project_id) = 'annotator'));
 
-create policy "Allow anonymous inserts batch" on batch_analyses for insert with check (true);
-create policy "Allow anonymous updates batch" on batch_analyses for update using (true);
-create policy "Allow anonymous selects batch" on batch_analyses for select using (true);
+-- Stats are written by record_model_stats() only; project members read them
+create policy "Members select models" on model_performance for select to authenticated using (project_role(project_id) is not null);
 
-create policy "Allow anonymous inserts models" on model_performance for insert with check (true);
-create policy "Allow anonymous updates models" on model_performance for update using (true);
-create policy "Allow anonymous selects models" on model_performance for select using (true);
+-- Workspace owners read the audit trail of their projects, everybody their own events.
+-- No insert, update or delete policies: events come from the functions and triggers above
+create policy "Owners select audit events" on audit_events for select to authenticated
+  using (project_role(project_id) = 'owner' or actor_id = auth.uid());